@@ -2,6 +2,8 @@
 
 import { useState } from 'react';
 import { useRouter } from 'next/navigation';
+import UploadProgress from '@/components/UploadProgress';
+import { describeIngestJob, DuplicateMatch, IngestJob, rejectedDuplicateOf, waitForIngestJob } from '@/app/utils/ingestJobs';
 
 export default function UploadPage() {
   const [file, setFile] = useState<File | null>(null);
@@ -9,6 +11,9 @@ export default function UploadPage() {
   const [isUploading, setIsUploading] = useState(false);
   const [message, setMessage] = useState('');
   const [error, setError] = useState('');
+  const [job, setJob] = useState<IngestJob | null>(null);
+  const [resumeJobId, setResumeJobId] = useState<string | null>(null);
+  const [duplicateOf, setDuplicateOf] = useState<DuplicateMatch | null>(null);
   const router = useRouter();
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -17,6 +22,44 @@ export default function UploadPage() {
     }
   };
 
+  // Follow the job started by an upload or resume request until it finishes
+  const handleResult = async (response: Response) => {
+    const data = await response.json();
+
+    if (!response.ok) {
+      const details = data.details ? `: ${data.details}` : '';
+
+      throw new Error(`${data.error || 'Failed to upload document'}${details}`);
+    }
+
+    setResumeJobId(null);
+    setDuplicateOf(null);
+    setJob(data.job);
+
+    const finished = await waitForIngestJob(data.jobId, setJob);
+
+    if (finished.status !== 'completed') {
+      // Failed jobs can be resumed; chunks that were already embedded are kept
+      setResumeJobId(finished.resumable ? finished.id : null);
+      // A rejected duplicate can be stored as a new version of the document it matches
+      setDuplicateOf(rejectedDuplicateOf(finished));
+      const progress = finished.totalChunks > 0 ? ` (${finished.embeddedChunks}/${finished.totalChunks} chunks embedded)` : '';
+
+      throw new Error(`Document processing ${finished.status}: ${finished.error || 'the server stopped before it finished'}${progress}`);
+    }
+
+    // A partial extraction is indexed, but some of the file's text may be missing
+    const warnings = finished.extraction?.warnings?.map(warning => warning.message).join('; ');
+
+    setMessage(`Document processed successfully! ID: ${finished.document?.id}${warnings ? `. Some text may be missing: ${warnings}` : ''}`);
+    setFile(null);
+    
+    // Refresh the page after 3 seconds
+    setTimeout(() => {
+      router.refresh();
+    }, 3000);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -28,6 +71,7 @@ export default function UploadPage() {
     setIsUploading(true);
     setMessage('');
     setError('');
+    setJob(null);
 
     try {
       const formData = new FormData();
@@ -39,19 +83,7 @@ export default function UploadPage() {
         body: formData,
       });
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to upload document');
-      }
-
-      const data = await response.json();
-      setMessage(`Document processed successfully! ID: ${data.document.id}`);
-      setFile(null);
-      
-      // Refresh the page after 3 seconds
-      setTimeout(() => {
-        router.refresh();
-      }, 3000);
+      await handleResult(response);
     } catch (err: any) {
       setError(err.message || 'An error occurred while uploading the document');
     } finally {
@@ -59,6 +91,55 @@ export default function UploadPage() {
     }
   };
 
+  // Upload the file again as a new version of the document it duplicates
+  const handleUploadAsVersion = async () => {
+    if (!file || !duplicateOf) return;
+
+    setIsUploading(true);
+    setMessage('');
+    setError('');
+
+    try {
+      const formData = new FormData();
+
+      formData.append('file', file);
+
+      const response = await fetch(`/api/knowledge/vectorize?id=${encodeURIComponent(duplicateOf.documentId)}`, {
+        method: 'PUT',
+        body: formData,
+      });
+
+      await handleResult(response);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while uploading the new version');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Continue a failed upload; only the chunks without embeddings are processed
+  const handleResume = async () => {
+    if (!resumeJobId) return;
+
+    setIsUploading(true);
+    setMessage('');
+    setError('');
+
+    try {
+      const response = await fetch('/api/knowledge/vectorize', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ jobId: resumeJobId }),
+      });
+
+      await handleResult(response);
+    } catch (err: any) {
+      setError(err.message || 'An error occurred while resuming the upload');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
   return (
     <div className="max-w-4xl mx-auto p-6">
       <h1 className="text-2xl font-bold mb-6">Upload Knowledge Base Documents</h1>
@@ -81,10 +162,10 @@ export default function UploadPage() {
           </div>
           
           <div>
-            <label className="block text-sm font-medium mb-2">Upload Document (PDF or TXT)</label>
+            <label className="block text-sm font-medium mb-2">Upload Document (PDF, Word, Markdown, HTML, CSV or TXT)</label>
             <input
               type="file"
-              accept=".pdf,.txt"
+              accept=".pdf,.txt,.md,.markdown,.docx,.html,.htm,.csv"
               onChange={handleFileChange}
               className="w-full p-2 bg-zinc-700 rounded border border-zinc-600 focus:ring-2 focus:ring-blue-500"
             />
@@ -103,6 +184,12 @@ export default function UploadPage() {
             {isUploading ? 'Processing...' : 'Upload & Process'}
           </button>
         </form>
+
+        {isUploading && job && (
+          <div className="mt-4">
+            <UploadProgress progress={job.progress} status={describeIngestJob(job)} />
+          </div>
+        )}
         
         {message && (
           <div className="mt-4 p-3 bg-green-900/50 border border-green-700 rounded text-green-400">
@@ -113,17 +200,37 @@ export default function UploadPage() {
         {error && (
           <div className="mt-4 p-3 bg-red-900/50 border border-red-700 rounded text-red-400">
             {error}
+            {resumeJobId && (
+              <button
+                className="block mt-2 py-1 px-3 bg-red-700 hover:bg-red-600 disabled:bg-zinc-600 rounded text-white text-sm"
+                disabled={isUploading}
+                type="button"
+                onClick={handleResume}
+              >
+                {isUploading ? 'Resuming...' : 'Resume processing'}
+              </button>
+            )}
+            {duplicateOf && file && (
+              <button
+                className="block mt-2 py-1 px-3 bg-red-700 hover:bg-red-600 disabled:bg-zinc-600 rounded text-white text-sm"
+                disabled={isUploading}
+                type="button"
+                onClick={handleUploadAsVersion}
+              >
+                {isUploading ? 'Uploading...' : `Upload as a new version of ${duplicateOf.fileName}`}
+              </button>
+            )}
           </div>
         )}
         
         <div className="mt-6">
           <h2 className="text-lg font-medium mb-2">Instructions</h2>
           <ul className="list-disc pl-5 space-y-1 text-sm">
-            <li>Upload PDF or TXT files to add to the knowledge base</li>
+            <li>Upload PDF, Word (.docx), Markdown, HTML, CSV or TXT files to add to the knowledge base</li>
             <li>Select the appropriate category for better organization</li>
             <li>Files will be processed and converted to embeddings</li>
             <li>Large files may take longer to process</li>
-            <li>For manual processing of multiple files, place PDFs in the <code>/storage/pdf-uploads</code> directory and run <code>node scripts/process-pdf-docs.js</code></li>
+            <li>To add many files at once, put them in a folder or zip archive and run <code>npm run kb -- ingest &lt;folder or zip&gt;</code></li>
           </ul>
         </div>
       </div>
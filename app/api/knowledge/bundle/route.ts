@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { initializeStorage } from '@/app/lib/init-storage';
+import { getEmbeddingProvider } from '@/app/lib/embedding-provider';
+import { startReembedJob } from '@/app/lib/reembed-job';
+import { exportBundle, importBundle, parseImportMode, parseModelMismatchPolicy, readBundle } from '@/app/lib/knowledge-bundle';
+
+// Download the whole knowledge base as a bundle
+export async function GET() {
+  try {
+    await initializeStorage();
+
+    const { archive, manifest } = await exportBundle();
+    const fileName = `knowledge-base-${manifest.createdAt.replace(/[:.]/g, '-')}.zip`;
+
+    console.log(`[API-BUNDLE] Exported ${manifest.documents} documents (${archive.length} bytes)`);
+
+    return new NextResponse(new Uint8Array(archive), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': String(archive.length),
+      },
+    });
+  } catch (error: any) {
+    console.error('[API-BUNDLE] Error exporting knowledge base:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to export the knowledge base' },
+      { status: 500 }
+    );
+  }
+}
+
+// Import a bundle. Multipart form: file, mode ("merge" or "replace", default merge)
+// and onModelMismatch ("reject", "keep" or "reembed", default reject)
+export async function POST(request: NextRequest) {
+  try {
+    await initializeStorage();
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const mode = parseImportMode(formData.get('mode') || 'merge');
+    const onModelMismatch = parseModelMismatchPolicy(formData.get('onModelMismatch') || 'reject');
+
+    if (!file) {
+      return NextResponse.json({ error: 'No bundle file provided' }, { status: 400 });
+    }
+
+    if (!mode || !onModelMismatch) {
+      return NextResponse.json(
+        { error: 'mode must be "merge" or "replace", and onModelMismatch "reject", "keep" or "reembed"' },
+        { status: 400 }
+      );
+    }
+
+    const bundle = readBundle(Buffer.from(await file.arrayBuffer()));
+
+    if (!bundle.valid) {
+      return NextResponse.json(
+        { error: 'Invalid knowledge base bundle', errors: bundle.errors },
+        { status: 422 }
+      );
+    }
+
+    const provider = getEmbeddingProvider();
+    const result = await importBundle(bundle, { mode, onModelMismatch, embeddingModel: provider.model });
+
+    if (result.status === 'rejected') {
+      return NextResponse.json({ error: result.message, reason: result.reason, mismatchedModels: result.mismatchedModels }, { status: 409 });
+    }
+
+    console.log(`[API-BUNDLE] Imported ${result.versions} versions of ${result.documents} documents (${mode})`);
+
+    // Imported documents from another model are migrated in the background, like POST /api/knowledge/reembed
+    if (onModelMismatch === 'reembed' && Object.keys(result.mismatchedModels).length > 0) {
+      try {
+        const job = startReembedJob(provider);
+
+        job.promise.catch(error => console.error('Re-embed job crashed:', error));
+
+        return NextResponse.json({ import: result, reembed: job.progress }, { status: 202 });
+      } catch (conflictError: any) {
+        return NextResponse.json({ import: result, error: `Imported, but re-embedding could not start: ${conflictError.message}` }, { status: 409 });
+      }
+    }
+
+    return NextResponse.json({ import: result });
+  } catch (error: any) {
+    console.error('[API-BUNDLE] Error importing knowledge base:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to import the knowledge base' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeStorage } from '@/app/lib/init-storage';
+import { isValidUploadId } from '@/app/lib/ingest-checkpoint';
+import { getIngestJob } from '@/app/lib/ingest-jobs';
+
+// Stage, progress and errors of an upload queued by POST /api/knowledge/vectorize
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!isValidUploadId(id)) {
+      return NextResponse.json(
+        { error: 'Invalid job ID' },
+        { status: 400 }
+      );
+    }
+
+    await initializeStorage();
+
+    const job = await getIngestJob(id);
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ job });
+  } catch (error: any) {
+    console.error('Error reading ingestion job:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to read ingestion job' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,27 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
-import { readdir, readFile, mkdir, stat } from 'fs/promises';
-import { join } from 'path';
-import { STORAGE_DIR as configuredStorageDir, initializeStorage } from '@/app/lib/init-storage';
-
-// Helper function to safely perform file operations
-const safeFileOperation = async <T>(operation: () => Promise<T>, fallback: T): Promise<T> => {
-  try {
-    return await operation();
-  } catch (error) {
-    console.error("File operation failed:", error);
-    return fallback;
-  }
-};
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { initializeStorage } from '@/app/lib/init-storage';
+import { getBlobStorage } from '@/app/lib/blob-storage';
+import { parseSearchFilter, VectorSearchFilter, VectorSearchMode, VectorSearchResult } from '@/app/lib/vector-store';
+import { FusionWeights, hybridSearch, parseFusionWeights } from '@/app/lib/hybrid-search';
+import { parseRerankMethod, rerank, RerankMethod } from '@/app/lib/reranker';
+import {
+  assessRetrieval,
+  ESCALATION_CONTACT,
+  notCoveredAnswer,
+  parseMinSimilarity,
+  RetrievalAssessment,
+} from '@/app/lib/answer-gating';
+import { CitedSource, formatCitationContext, parseCitedAnswer, StructuredAnswer, toCitedSources } from '@/app/lib/citations';
+import { createSSEResponse, SSESend, wantsEventStream } from '@/app/lib/sse';
+import { EmbeddingProvider, getEmbeddingProvider } from '@/app/lib/embedding-provider';
+import { createCachedEmbeddingProvider } from '@/app/lib/embedding-cache';
 
 // Initialize OpenAI client
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
-// Define the storage directory for documents
-const STORAGE_DIR = global.STORAGE_DIR || configuredStorageDir || join(process.cwd(), 'storage', 'documents');
-
 // Ensure storage directory exists
 async function ensureStorageExists() {
   try {
@@ -37,9 +38,7 @@ async function ensureStorageExists() {
     // Initialize storage using the shared function
     await initializeStorage();
     
-    // Use the global storage directory or fall back to the local one
-    const dirToUse = global.STORAGE_DIR || STORAGE_DIR;
-    console.log(`Using storage directory: ${dirToUse}`);
+    console.log(`Using ${getBlobStorage().name} storage at ${getBlobStorage().location}`);
   } catch (error) {
     console.error('Error ensuring storage exists:', error);
     // In serverless environments, we might not have write access
@@ -47,122 +46,107 @@ async function ensureStorageExists() {
   }
 }
 
-// Create embedding for query
-async function createEmbedding(text: string) {
-  const response = await openai.embeddings.create({
-    model: 'text-embedding-ada-002',
-    input: text,
-  });
-  
-  return response.data[0].embedding;
+// Create embedding for query with the same provider the documents were embedded with
+async function createEmbedding(text: string, embeddings: EmbeddingProvider) {
+  return embeddings.embed(text);
 }
 
-// Calculate cosine similarity between two vectors
-function cosineSimilarity(vecA: number[], vecB: number[]): number {
-  let dotProduct = 0;
-  let normA = 0;
-  let normB = 0;
+// Find relevant chunks for a query. Search errors (a broken index, a storage
+// outage) propagate; only a failed rerank falls back to the search order.
+async function findRelevantChunks(
+  query: string,
+  queryEmbedding: number[],
+  limit: number = 5,
+  mode?: VectorSearchMode,
+  fusion?: FusionWeights,
+  filter?: VectorSearchFilter,
+  rerankMethod?: RerankMethod
+) {
+  // Ensure storage directory exists
+  await ensureStorageExists();
   
-  for (let i = 0; i < vecA.length; i++) {
-    dotProduct += vecA[i] * vecB[i];
-    normA += vecA[i] * vecA[i];
-    normB += vecB[i] * vecB[i];
+  // Retrieve a wider candidate set and let the reranker pick the best, most diverse chunks
+  const candidates = await hybridSearch(query, queryEmbedding, {
+    topK: limit * 4,
+    mode,
+    fusion,
+    filter,
+    embeddingModel: getEmbeddingProvider().model,
+  });
+  let results: VectorSearchResult[];
+  
+  try {
+    results = await rerank(query, candidates, { topK: limit, method: rerankMethod, client: openai });
+  } catch (rerankError) {
+    console.error('Error reranking chunks, using the search order:', rerankError);
+    results = candidates.slice(0, limit);
   }
   
-  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  console.log(`Returning ${results.length} relevant chunks from ${candidates.length} candidates`);
+  return results;
 }
 
-// Find relevant chunks for a query
-async function findRelevantChunks(queryEmbedding: number[], limit: number = 5) {
-  // Ensure storage directory exists
-  await ensureStorageExists();
+type AnswerResult = {
+  answer: string;
+  answered: boolean;
+  confidence: number;
+  sources: VectorSearchResult[];
+  structuredAnswer: StructuredAnswer;
+};
+
+// Either a finished result (nothing to ask the model) or the prompt to send
+type PreparedAnswer =
+  | { result: AnswerResult }
+  | { messages: ChatCompletionMessageParam[]; assessment: RetrievalAssessment; citedSources: CitedSource[] };
+
+const ANSWER_MODEL = 'gpt-4-turbo-preview';
+
+// Answer used when the model call fails
+function unavailableAnswer(): AnswerResult {
+  const { text, structured } = parseCitedAnswer(`• I apologize, but I'm having trouble generating a response at the moment.
+• Printform Manufacturing Company provides custom parts manufacturing services including CNC Machining, Injection Molding, Sheet Metal, Cast Urethane, and 3D Printing.
+• Please try your question again later or contact Printform directly at ${ESCALATION_CONTACT} for assistance.`, []);
   
-  try {
-    const dirToUse = global.STORAGE_DIR || STORAGE_DIR;
-    console.log(`Looking for documents in: ${dirToUse}`);
-    
-    // Safely read directory
-    const files = await safeFileOperation(
-      () => readdir(dirToUse),
-      []
-    );
-    
-    const jsonFiles = files.filter(file => file.endsWith('.json'));
-    console.log(`Found ${jsonFiles.length} JSON files`);
-    
-    let allChunks: any[] = [];
-    
-    // Load all chunks from all documents
-    for (const file of jsonFiles) {
-      try {
-        const content = await safeFileOperation(
-          () => readFile(join(dirToUse, file), 'utf-8'),
-          '{}'
-        );
-        
-        const data = JSON.parse(content);
-        if (data.chunks && Array.isArray(data.chunks)) {
-          console.log(`Adding ${data.chunks.length} chunks from ${file}`);
-          allChunks = allChunks.concat(data.chunks);
-        }
-      } catch (fileError) {
-        console.error(`Error processing file ${file}:`, fileError);
-        // Continue with other files
-      }
-    }
+  return {
+    answer: text,
+    answered: false,
+    confidence: 0,
+    sources: [],
+    structuredAnswer: structured,
+  };
+}
+
+// Gate the retrieved chunks and build the prompt for the answer
+function prepareAnswer(query: string, relevantChunks: VectorSearchResult[], minSimilarity?: number): PreparedAnswer {
+  // Only answer from chunks that clear the similarity cutoff, or cover the query with a similarity above the keyword floor
+  const assessment = assessRetrieval(relevantChunks, minSimilarity, undefined, getEmbeddingProvider().minKeywordSimilarity);
   
-    // If no chunks found, return empty array
-    if (allChunks.length === 0) {
-      console.log('No chunks found in any documents');
-      return [];
-    }
-    
-    console.log(`Processing ${allChunks.length} total chunks`);
-    
-    // Calculate similarity for each chunk
-    const chunksWithSimilarity = allChunks
-      .filter(chunk => chunk && chunk.embedding) // Ensure chunk has embedding
-      .map(chunk => ({
-        ...chunk,
-        similarity: cosineSimilarity(queryEmbedding, chunk.embedding),
-      }));
-    
-    // Sort by similarity and take the top results
-    const results = chunksWithSimilarity
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit)
-      .map(chunk => ({
-        content: chunk.content,
-        metadata: chunk.metadata || { source: 'unknown' },
-        similarity: chunk.similarity,
-      }));
+  console.log(`Best similarity ${assessment.bestSimilarity.toFixed(3)} (cutoff ${assessment.minSimilarity}), best keyword coverage ${assessment.bestKeywordCoverage.toFixed(2)} (cutoff ${assessment.minKeywordCoverage}, similarity floor ${assessment.minKeywordSimilarity}), ${assessment.chunks.length} usable chunks, confidence ${assessment.confidence}`);
+  
+  // Nothing relevant enough: say so and offer escalation instead of improvising
+  if (!assessment.answerable) {
+    const { text, structured } = parseCitedAnswer(notCoveredAnswer(), []);
     
-    console.log(`Returning ${results.length} relevant chunks`);
-    return results;
-  } catch (error) {
-    console.error('Error finding relevant chunks:', error);
-    return []; // Return empty array on error
+    return {
+      result: {
+        answer: text,
+        answered: false,
+        confidence: assessment.confidence,
+        sources: [],
+        structuredAnswer: structured,
+      },
+    };
   }
-}
-
-// Generate answer using OpenAI
-async function generateAnswer(query: string, relevantChunks: any[]) {
-  // Check if we have any relevant chunks
-  const hasContext = relevantChunks && relevantChunks.length > 0;
   
-  // Prepare context from relevant chunks if available
-  const context = hasContext 
-    ? relevantChunks.map(chunk => chunk.content).join('\n\n')
-    : '';
+  // Number the chunks so the answer can cite them as [n]
+  const citedSources = toCitedSources(assessment.chunks);
+  const context = formatCitationContext(citedSources);
   
   // Create prompt with context and query
-  let prompt;
-  
-  if (hasContext) {
-    prompt = `
+  const prompt = `
 You are a support assistant for Printform Manufacturing Company, a company that provides custom parts manufacturing on demand services, including CNC Machining, Injection Molding, Sheet Metal, Cast Urethane, and 3D Printing.
 
-Use the following information to answer the question:
+Use the following numbered passages to answer the question:
 
 ${context}
 
@@ -174,55 +158,136 @@ IMPORTANT RESPONSE GUIDELINES:
 3. Highlight only the most important information
 4. Use short, clear sentences
 5. Avoid unnecessary details or explanations
-6. If the information provided doesn't contain the answer, say so clearly and provide 2-3 bullet points with general information
+6. Answer only from the information above. If it doesn't contain the answer, say that the manuals don't cover it and suggest contacting Printform support at ${ESCALATION_CONTACT}
+7. End every bullet with the number of each passage it is based on in square brackets, e.g. [1] or [1][3]. Only cite the passages listed above
 
 Your goal is to provide the most value with the fewest words possible.
 `;
-  } else {
-    // No context available, use general knowledge
-    prompt = `
-You are a support assistant for Printform Manufacturing Company, a company that provides custom parts manufacturing on demand services, including CNC Machining, Injection Molding, Sheet Metal, Cast Urethane, and 3D Printing.
 
-Question: ${query}
-
-IMPORTANT RESPONSE GUIDELINES:
-1. Format your response as a concise summary with bullet points
-2. Keep your answer brief and to the point (maximum 3-5 bullet points)
-3. Highlight only the most important information
-4. Use short, clear sentences
-5. Avoid unnecessary details or explanations
-6. Provide only general information that might be useful
+  return {
+    messages: [
+      { 
+        role: 'system', 
+        content: 'You are a knowledgeable support assistant for Printform Manufacturing Company. Always respond with concise bullet points to save tokens. Summarize information clearly and avoid lengthy explanations. Focus on delivering maximum value with minimum words.' 
+      },
+      { role: 'user', content: prompt }
+    ],
+    assessment,
+    citedSources,
+  };
+}
 
-Your goal is to provide the most value with the fewest words possible. If you don't know the specific answer, provide 2-3 bullet points with general information and suggest contacting Printform directly.
-`;
+// Validate citations in the generated text and build the response body
+function finishAnswer(content: string, assessment: RetrievalAssessment, citedSources: CitedSource[]): AnswerResult {
+  // Drop citations that don't match a supplied passage
+  const { text, structured } = parseCitedAnswer(content, citedSources);
+  
+  if (structured.invalidCitations.length > 0) {
+    console.warn(`Removed invalid citations from answer: ${structured.invalidCitations.join(', ')}`);
   }
+  
+  return {
+    answer: text,
+    answered: true,
+    confidence: assessment.confidence,
+    sources: assessment.chunks,
+    structuredAnswer: structured,
+  };
+}
 
+// Generate answer using OpenAI
+async function generateAnswer(query: string, relevantChunks: VectorSearchResult[], minSimilarity?: number): Promise<AnswerResult> {
+  const prepared = prepareAnswer(query, relevantChunks, minSimilarity);
+  
+  if ('result' in prepared) {
+    return prepared.result;
+  }
+  
   try {
     // Generate completion
     const completion = await openai.chat.completions.create({
-      model: 'gpt-4-turbo-preview',
-      messages: [
-        { 
-          role: 'system', 
-          content: 'You are a knowledgeable support assistant for Printform Manufacturing Company. Always respond with concise bullet points to save tokens. Summarize information clearly and avoid lengthy explanations. Focus on delivering maximum value with minimum words.' 
-        },
-        { role: 'user', content: prompt }
-      ],
+      model: ANSWER_MODEL,
+      messages: prepared.messages,
       temperature: 0.3,
       max_tokens: 800, // Reduced from 1000 to encourage brevity
     });
     
-    return completion.choices[0].message.content;
+    return finishAnswer(completion.choices[0].message.content || '', prepared.assessment, prepared.citedSources);
   } catch (error) {
     console.error('Error generating answer with OpenAI:', error);
     
     // Provide a fallback response if OpenAI fails
-    return `• I apologize, but I'm having trouble generating a response at the moment.
-• Printform Manufacturing Company provides custom parts manufacturing services including CNC Machining, Injection Molding, Sheet Metal, Cast Urethane, and 3D Printing.
-• Please try your question again later or contact Printform directly at info@printform.com for assistance.`;
+    return unavailableAnswer();
   }
 }
 
+/**
+ * Stream the answer as server-sent events: `sources` once retrieval is done,
+ * `token` for each piece of generated text, then `done` with the same body the
+ * non-streaming response returns.
+ */
+async function streamAnswer(
+  query: string,
+  relevantChunks: VectorSearchResult[],
+  minSimilarity: number | undefined,
+  send: SSESend,
+  signal: AbortSignal
+) {
+  const prepared = prepareAnswer(query, relevantChunks, minSimilarity);
+  
+  if ('result' in prepared) {
+    send('token', { text: prepared.result.answer });
+    send('done', prepared.result);
+    return;
+  }
+  
+  send('sources', {
+    sources: prepared.citedSources,
+    confidence: prepared.assessment.confidence,
+  });
+  
+  let content = '';
+  
+  try {
+    const stream = await openai.chat.completions.create(
+      {
+        model: ANSWER_MODEL,
+        messages: prepared.messages,
+        temperature: 0.3,
+        max_tokens: 800,
+        stream: true,
+      },
+      { signal }
+    );
+    
+    for await (const part of stream) {
+      const text = part.choices[0]?.delta?.content;
+      
+      if (text) {
+        content += text;
+        send('token', { text });
+      }
+    }
+  } catch (error) {
+    if (signal.aborted) {
+      return;
+    }
+    
+    console.error('Error streaming answer from OpenAI:', error);
+    
+    // Nothing was sent yet, so the fallback can replace the answer entirely
+    if (!content) {
+      const fallback = unavailableAnswer();
+      
+      send('token', { text: fallback.answer });
+      send('done', fallback);
+      return;
+    }
+  }
+  
+  send('done', finishAnswer(content, prepared.assessment, prepared.citedSources));
+}
+
 // API route handler
 export async function POST(request: NextRequest) {
   try {
@@ -231,7 +296,7 @@ export async function POST(request: NextRequest) {
     
     // Parse request body
     const body = await request.json().catch(() => ({}));
-    const { query } = body;
+    const { query, searchMode, fusion, filters, rerank: rerankMethod, minSimilarity } = body;
     
     if (!query) {
       return NextResponse.json(
@@ -240,35 +305,60 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // filters: { documentIds, categories, fileTypes, uploadedAfter, uploadedBefore }
+    let filter: VectorSearchFilter | undefined;
+    
     try {
-      // Create embedding for the query
-      const queryEmbedding = await createEmbedding(query);
-      
-      // Find relevant chunks
-      const relevantChunks = await findRelevantChunks(queryEmbedding);
-      
-      // Generate answer (with or without chunks)
-      const answer = await generateAnswer(query, relevantChunks);
-      
-      return NextResponse.json({
-        answer,
-        sources: relevantChunks,
+      filter = parseSearchFilter(filters);
+    } catch (filterError: any) {
+      return NextResponse.json(
+        { error: `Invalid filters: ${filterError.message}` },
+        { status: 400 }
+      );
+    }
+    
+    // Repeated questions are answered from the embedding cache; debug reports its hit rate
+    const embeddings = createCachedEmbeddingProvider();
+    const debugInfo = () => ({ embeddingCache: embeddings.cacheStats() });
+    
+    // Create embedding for the query and find relevant chunks
+    // searchMode: 'approximate' (default), 'exact', or 'verify' to log recall against an exact scan
+    // fusion: { vector, keyword, k } weights for combining embedding and BM25 rankings
+    // rerank: 'heuristic' (default unless KNOWLEDGE_RERANK says otherwise), 'llm' or 'none'
+    const retrieve = async () => findRelevantChunks(
+      query,
+      await createEmbedding(query, embeddings),
+      5,
+      searchMode,
+      parseFusionWeights(fusion),
+      filter,
+      parseRerankMethod(rerankMethod)
+    );
+    
+    // minSimilarity: optional override of the embedding model's cutoff (0-1)
+    const similarityCutoff = parseMinSimilarity(minSimilarity) ?? getEmbeddingProvider().minSimilarity;
+    
+    // stream: true (or Accept: text/event-stream) streams the answer as server-sent events
+    if (wantsEventStream(request, body)) {
+      return createSSEResponse(async (send, signal) => {
+        // A failed search ends the stream with an error event rather than a "not covered" answer
+        const relevantChunks = await retrieve();
+        
+        // The final event carries the same debug info as the JSON response
+        const sendWithDebug: SSESend = (event, data) =>
+          send(event, event === 'done' ? { ...data, debug: debugInfo() } : data);
+        
+        await streamAnswer(query, relevantChunks, similarityCutoff, sendWithDebug, signal);
       });
-    } catch (processingError: any) {
-      console.error('Error processing query:', processingError);
-      
-      // Fallback to direct answer without RAG if there's an error
-      try {
-        const fallbackAnswer = await generateAnswer(query, []);
-        return NextResponse.json({
-          answer: fallbackAnswer,
-          sources: [],
-          note: "Used fallback mode due to processing error"
-        });
-      } catch (fallbackError) {
-        throw new Error(`Failed to process query: ${processingError.message}`);
-      }
     }
+    
+    // Search errors answer 500 below instead of a "not covered" response
+    const relevantChunks = await retrieve();
+    
+    // Generate answer, or a "not covered" response when nothing clears the cutoff
+    const result = await generateAnswer(query, relevantChunks, similarityCutoff);
+    
+    return NextResponse.json({ ...result, debug: debugInfo() });
   } catch (error: any) {
     console.error('Error querying knowledge base:', error);
     return NextResponse.json(
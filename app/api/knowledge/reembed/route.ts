@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { initializeStorage } from '@/app/lib/init-storage';
+import { createEmbeddingProvider, parseEmbeddingProviderName } from '@/app/lib/embedding-provider';
+import { getReembedProgress, startReembedJob } from '@/app/lib/reembed-job';
+
+// Progress of the current or most recent re-embed job
+export async function GET() {
+  try {
+    await initializeStorage();
+
+    const progress = await getReembedProgress();
+
+    return NextResponse.json({ job: progress });
+  } catch (error: any) {
+    console.error('Error reading re-embed progress:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to read re-embed progress' },
+      { status: 500 }
+    );
+  }
+}
+
+// Start (or resume) migrating every document to a new embedding model
+// Body: { provider?: 'openai' | 'local', model?: string }, defaulting to the configured provider
+export async function POST(request: NextRequest) {
+  try {
+    await initializeStorage();
+
+    const body = await request.json().catch(() => ({}));
+    const providerName = parseEmbeddingProviderName(body.provider);
+
+    if (body.provider !== undefined && !providerName) {
+      return NextResponse.json(
+        { error: 'provider must be "openai" or "local"' },
+        { status: 400 }
+      );
+    }
+
+    if (body.model !== undefined && (typeof body.model !== 'string' || !body.model.trim())) {
+      return NextResponse.json(
+        { error: 'model must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    const provider = createEmbeddingProvider(providerName, { model: body.model?.trim() });
+
+    let job;
+
+    try {
+      job = startReembedJob(provider);
+    } catch (conflictError: any) {
+      return NextResponse.json(
+        { error: conflictError.message },
+        { status: 409 }
+      );
+    }
+
+    console.log(`Re-embed job running for ${provider.name} (${provider.model})`);
+    job.promise.catch(error => console.error('Re-embed job crashed:', error));
+
+    return NextResponse.json({ job: job.progress }, { status: 202 });
+  } catch (error: any) {
+    console.error('Error starting re-embed job:', error);
+
+    return NextResponse.json(
+      { error: error.message || 'Failed to start re-embed job' },
+      { status: 500 }
+    );
+  }
+}
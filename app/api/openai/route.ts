@@ -1,19 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { OpenAIAssistant } from '@/app/lib/openai-assistant';
-import { mkdir } from 'fs/promises';
-import { join } from 'path';
-
-// Ensure storage directory exists
-async function ensureStorageExists() {
-  try {
-    const STORAGE_DIR = join(process.cwd(), 'storage', 'documents');
-    await mkdir(STORAGE_DIR, { recursive: true });
-  } catch (error) {
-    console.error('Error creating storage directory:', error);
-    // In serverless environments, we might not have write access to the filesystem
-    // Just log the error and continue - the app will fall back to not using RAG
-  }
-}
+import { parseFusionWeights } from '@/app/lib/hybrid-search';
+import { parseSearchFilter, VectorSearchFilter } from '@/app/lib/vector-store';
+import { parseRerankMethod } from '@/app/lib/reranker';
+import { createSSEResponse, wantsEventStream } from '@/app/lib/sse';
+import { initializeStorage } from '@/app/lib/init-storage';
 
 // Set a timeout for the entire API request - reduced for Netlify compatibility
 const API_TIMEOUT = 25000; // 25 seconds (Netlify functions timeout at 30s)
@@ -42,7 +33,7 @@ export async function POST(request: NextRequest) {
 
     // Parse the request body
     const body = await request.json();
-    const { question: rawQuestion, resetThread = false, useRAG = true, threadId = null } = body;
+    const { question: rawQuestion, resetThread = false, useRAG = true, threadId = null, fusion, filters, rerank } = body;
 
     if (!rawQuestion) {
       console.error('Question is missing in the request');
@@ -52,6 +43,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Optional retrieval filters: { documentIds, categories, fileTypes, uploadedAfter, uploadedBefore }
+    let searchFilter: VectorSearchFilter | undefined;
+
+    try {
+      searchFilter = parseSearchFilter(filters);
+    } catch (filterError: any) {
+      console.error('Invalid retrieval filters:', filterError.message);
+      return NextResponse.json(
+        { error: `Invalid filters: ${filterError.message}` },
+        { status: 400 }
+      );
+    }
+
     // Limit question length to prevent issues with extremely long inputs
     const MAX_QUESTION_LENGTH = 1000; // Reduced from 2000 to help with timeouts
     question = rawQuestion.length > MAX_QUESTION_LENGTH 
@@ -62,10 +66,11 @@ export async function POST(request: NextRequest) {
     console.log(`Question length: ${question.length} chars, Reset thread: ${resetThread}, Use RAG: ${useRAG}, Thread ID: ${threadId}`);
 
     // Ensure storage directory exists for RAG
-    await ensureStorageExists();
+    await initializeStorage();
 
     try {
-      // Create a new assistant instance for each request (stateless approach)
+      // Create a new assistant instance for each request; the conversation history
+      // itself is kept server-side and looked up by thread ID
       console.log('Initializing new OpenAI Assistant instance');
       
       // Log the request parameters for debugging
@@ -88,6 +93,12 @@ export async function POST(request: NextRequest) {
       try {
         const assistantInstance = new OpenAIAssistant(apiKey);
         
+        // resetThread drops the stored history and starts a new conversation
+        if (resetThread && threadId) {
+          console.log('Resetting conversation:', threadId);
+          await assistantInstance.resetConversation(threadId);
+        }
+        
         // Initialize with the thread ID if provided
         console.log('Initializing assistant with thread ID:', threadId);
         await assistantInstance.initialize(
@@ -112,12 +123,33 @@ They serve various industries including consumer products, energy, medical, and
 
 IMPORTANT: Printform also offers digital products, including:
 - MCloud: A proprietary platform developed exclusively by Printform, accessible at https://paasport.printform.com/paasport/login. MCloud is Printform's cloud-based manufacturing management system that helps customers track orders, manage projects, and streamline their manufacturing workflow. When users ask about MCloud, always emphasize that it is Printform's exclusive product and provide information about its features and benefits for manufacturing management.`,
-          threadId
+          resetThread ? null : threadId
         );
 
         // Set RAG usage based on request
         console.log('Setting RAG usage:', useRAG);
         assistantInstance.setUseRAG(useRAG);
+        assistantInstance.setFusionWeights(parseFusionWeights(fusion));
+        assistantInstance.setSearchFilter(searchFilter);
+        assistantInstance.setRerankMethod(parseRerankMethod(rerank));
+
+        // stream: true (or Accept: text/event-stream) sends tokens as they arrive
+        // instead of waiting for the whole answer, so there is no gateway timeout to hit
+        if (wantsEventStream(request, body)) {
+          clearTimeout(timeoutId);
+          console.log('Streaming response from OpenAI');
+
+          return createSSEResponse(async (send, signal) => {
+            const result = await assistantInstance.streamResponse(
+              question,
+              text => send('token', { text }),
+              signal
+            );
+
+            console.log(`Streamed answer (${result.answer.length} chars), Thread ID: ${result.threadId}`);
+            send('done', { ...result, debug: { embeddingCache: assistantInstance.getEmbeddingCacheStats() } });
+          });
+        }
 
         // Create a promise that will be rejected if the controller aborts
         const abortPromise = new Promise<never>((_, reject) => {
@@ -144,7 +176,10 @@ IMPORTANT: Printform also offers digital products, including:
         // Return the response with the thread ID
         return NextResponse.json({ 
           answer,
-          threadId: newThreadId
+          threadId: newThreadId,
+          debug: {
+            embeddingCache: assistantInstance.getEmbeddingCacheStats()
+          }
         });
       } catch (assistantError: any) {
         // More detailed error for assistant initialization or processing
@@ -3,24 +3,69 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { initializeStorage } from '../actions';
+import { readAnswerStream } from '../utils/streamingAnswer';
+import { describeIngestJob, IngestJob, rejectedDuplicateOf, waitForIngestJob } from '../utils/ingestJobs';
+import UploadProgress from '@/components/UploadProgress';
 
 interface ProcessedDocument {
   id: string;
+  // Shared by every version of the document
+  documentId: string;
+  version?: number;
+  versionCount: number;
   fileName: string;
   namespace: string;
   chunks: number;
   createdAt: string;
 }
 
+interface CitationReference {
+  index: number;
+  documentName: string;
+  page?: number;
+  pageEnd?: number;
+}
+
+interface CitedSource extends CitationReference {
+  documentId: string;
+  section?: string;
+  chunk: number;
+  content: string;
+}
+
+interface StructuredAnswer {
+  bullets: { text: string; citations: CitationReference[] }[];
+  sources: CitedSource[];
+}
+
+// ", page 4" or ", pages 4-5" after a document name
+const pageLabel = ({ page, pageEnd }: CitationReference) => {
+  if (!page) return '';
+  return pageEnd ? `, pages ${page}-${pageEnd}` : `, page ${page}`;
+};
+
+// Category is the prefix of the namespace, e.g. "manual_<uuid>"
+function documentCategory(doc: ProcessedDocument): string {
+  return doc.namespace.split('_')[0];
+}
+
 export default function KnowledgeBasePage() {
   const [file, setFile] = useState<File | null>(null);
   const [category, setCategory] = useState('general');
   const [uploading, setUploading] = useState(false);
+  const [uploadJob, setUploadJob] = useState<IngestJob | null>(null);
   const [documents, setDocuments] = useState<ProcessedDocument[]>([]);
   const [query, setQuery] = useState('');
   const [answer, setAnswer] = useState('');
   const [sources, setSources] = useState<any[]>([]);
+  const [structuredAnswer, setStructuredAnswer] = useState<StructuredAnswer | null>(null);
+  const [answered, setAnswered] = useState(true);
+  const [confidence, setConfidence] = useState<number | null>(null);
   const [searching, setSearching] = useState(false);
+  const [filterCategories, setFilterCategories] = useState<string[]>([]);
+  const [filterDocumentIds, setFilterDocumentIds] = useState<string[]>([]);
+  const [uploadedAfter, setUploadedAfter] = useState('');
+  const [uploadedBefore, setUploadedBefore] = useState('');
   const router = useRouter();
 
   // Initialize storage and fetch processed documents
@@ -65,7 +110,36 @@ export default function KnowledgeBasePage() {
       });
 
       const data = await response.json();
-      if (response.ok) {
+      if (!response.ok) {
+        alert(`Error: ${data.error}`);
+        return;
+      }
+
+      // Processing continues in the background; follow the job until it finishes
+      let job = await waitForIngestJob(data.jobId, setUploadJob);
+      const duplicate = rejectedDuplicateOf(job);
+
+      // Offer to store a rejected duplicate as a new version of the document it matches
+      if (duplicate && confirm(`${job.error}\n\nUpload it as a new version of ${duplicate.fileName}?`)) {
+        const versionData = new FormData();
+        versionData.append('file', file);
+
+        const versionResponse = await fetch(`/api/knowledge/vectorize?id=${encodeURIComponent(duplicate.documentId)}`, {
+          method: 'PUT',
+          body: versionData,
+        });
+        const versionJob = await versionResponse.json();
+
+        if (!versionResponse.ok) {
+          alert(`Error: ${versionJob.error}`);
+
+          return;
+        }
+
+        job = await waitForIngestJob(versionJob.jobId, setUploadJob);
+      }
+
+      if (job.status === 'completed') {
         alert('Document uploaded and processed successfully!');
         setFile(null);
         // Refresh the document list
@@ -73,16 +147,59 @@ export default function KnowledgeBasePage() {
         const docsData = await docsResponse.json();
         setDocuments(docsData.documents || []);
       } else {
-        alert(`Error: ${data.error}`);
+        alert(`Error: ${job.error || `Processing ${job.status}`}`);
       }
     } catch (error) {
       console.error('Error uploading document:', error);
       alert('An error occurred while uploading the document.');
     } finally {
       setUploading(false);
+      setUploadJob(null);
+    }
+  };
+
+  // Delete a document with all of its versions
+  const handleDelete = async (doc: ProcessedDocument) => {
+    if (!confirm(`Delete ${doc.fileName} and all ${doc.versionCount} of its versions?`)) return;
+
+    try {
+      const response = await fetch(`/api/knowledge/vectorize?id=${encodeURIComponent(doc.documentId)}`, {
+        method: 'DELETE',
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        alert(`Error: ${data.error}`);
+
+        return;
+      }
+
+      setDocuments(documents.filter((item) => item.documentId !== doc.documentId));
+      setFilterDocumentIds(filterDocumentIds.filter((id) => id !== doc.documentId));
+    } catch (error) {
+      console.error('Error deleting document:', error);
+      alert('An error occurred while deleting the document.');
     }
   };
 
+  // Categories available for filtering, derived from the processed documents
+  const categories = Array.from(new Set(documents.map(documentCategory))).sort();
+
+  // Add or remove a value from a filter selection
+  const toggleValue = (values: string[], value: string) =>
+    values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+
+  // Build the retrieval filter, leaving out anything that is not set
+  const buildFilters = () => {
+    const filters: Record<string, any> = {};
+    if (filterCategories.length > 0) filters.categories = filterCategories;
+    if (filterDocumentIds.length > 0) filters.documentIds = filterDocumentIds;
+    if (uploadedAfter) filters.uploadedAfter = uploadedAfter;
+    if (uploadedBefore) filters.uploadedBefore = uploadedBefore;
+    return Object.keys(filters).length > 0 ? filters : undefined;
+  };
+
   // Handle query submission
   const handleQuery = async () => {
     if (!query.trim()) return;
@@ -90,6 +207,8 @@ export default function KnowledgeBasePage() {
     setSearching(true);
     setAnswer('');
     setSources([]);
+    setStructuredAnswer(null);
+    setConfidence(null);
 
     try {
       const response = await fetch('/api/knowledge/query', {
@@ -97,16 +216,24 @@ export default function KnowledgeBasePage() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ query }),
+        body: JSON.stringify({ query, filters: buildFilters(), stream: true }),
       });
 
-      const data = await response.json();
-      if (response.ok) {
-        setAnswer(data.answer);
-        setSources(data.sources);
-      } else {
-        alert(`Error: ${data.error}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        alert(`Error: ${errorData.error}`);
+        return;
       }
+
+      // Show the answer as it streams in, then replace it with the cited version
+      const data = await readAnswerStream(response, {
+        onToken: (text) => setAnswer((current) => current + text),
+      });
+      setAnswer(data.answer);
+      setSources(data.sources || []);
+      setStructuredAnswer(data.structuredAnswer || null);
+      setAnswered(data.answered !== false);
+      setConfidence(typeof data.confidence === 'number' ? data.confidence : null);
     } catch (error) {
       console.error('Error querying knowledge base:', error);
       alert('An error occurred while querying the knowledge base.');
@@ -138,7 +265,7 @@ export default function KnowledgeBasePage() {
             type="file"
             onChange={handleFileChange}
             className="w-full p-2 border rounded"
-            accept=".pdf,.txt,.docx"
+            accept=".pdf,.txt,.md,.markdown,.docx,.html,.htm,.csv"
           />
         </div>
         <button
@@ -148,6 +275,11 @@ export default function KnowledgeBasePage() {
         >
           {uploading ? 'Uploading...' : 'Upload Document'}
         </button>
+        {uploadJob && (
+          <div className="mt-4">
+            <UploadProgress progress={uploadJob.progress} status={describeIngestJob(uploadJob)} />
+          </div>
+        )}
       </div>
 
       {/* Query Section */}
@@ -162,6 +294,54 @@ export default function KnowledgeBasePage() {
             rows={3}
           />
         </div>
+        {documents.length > 0 && (
+          <details className="mb-4">
+            <summary className="text-sm font-medium cursor-pointer">Filters</summary>
+            <div className="mt-2 grid gap-4 md:grid-cols-3">
+              <div>
+                <div className="text-sm font-medium mb-1">Categories</div>
+                {categories.map((cat) => (
+                  <label key={cat} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={filterCategories.includes(cat)}
+                      onChange={() => setFilterCategories(toggleValue(filterCategories, cat))}
+                    />
+                    {cat}
+                  </label>
+                ))}
+              </div>
+              <div>
+                <div className="text-sm font-medium mb-1">Documents</div>
+                {documents.map((doc) => (
+                  <label key={doc.id} className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={filterDocumentIds.includes(doc.documentId)}
+                      onChange={() => setFilterDocumentIds(toggleValue(filterDocumentIds, doc.documentId))}
+                    />
+                    {doc.fileName}
+                  </label>
+                ))}
+              </div>
+              <div>
+                <div className="text-sm font-medium mb-1">Uploaded between</div>
+                <input
+                  type="date"
+                  value={uploadedAfter}
+                  onChange={(e) => setUploadedAfter(e.target.value)}
+                  className="w-full p-2 border rounded mb-2"
+                />
+                <input
+                  type="date"
+                  value={uploadedBefore}
+                  onChange={(e) => setUploadedBefore(e.target.value)}
+                  className="w-full p-2 border rounded"
+                />
+              </div>
+            </div>
+          </details>
+        )}
         <button
           onClick={handleQuery}
           disabled={!query.trim() || searching}
@@ -175,9 +355,55 @@ export default function KnowledgeBasePage() {
       {answer && (
         <div className="bg-white p-6 rounded-lg shadow-md mb-8">
           <h2 className="text-xl font-semibold mb-4">Answer</h2>
-          <div className="mb-4 whitespace-pre-line">{answer}</div>
+          {!answered && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-300 rounded text-sm text-yellow-800">
+              The manuals don&apos;t cover this question. Please contact Printform support if you need further help.
+            </div>
+          )}
+          {structuredAnswer && structuredAnswer.bullets.length > 0 ? (
+            <ul className="mb-4 list-disc pl-5">
+              {structuredAnswer.bullets.map((bullet, index) => (
+                <li key={index} className="mb-1">
+                  {bullet.text}
+                  {bullet.citations.map((citation) => (
+                    <a
+                      key={citation.index}
+                      href={`#source-${citation.index}`}
+                      title={`${citation.documentName}${pageLabel(citation)}`}
+                      className="ml-1 text-xs text-blue-600 hover:underline align-super"
+                    >
+                      [{citation.index}]
+                    </a>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="mb-4 whitespace-pre-line">{answer}</div>
+          )}
+          {confidence !== null && answered && (
+            <div className="mb-4 text-xs text-gray-500">
+              Confidence: {Math.round(confidence * 100)}%
+            </div>
+          )}
           
-          {sources.length > 0 && (
+          {structuredAnswer && structuredAnswer.sources.length > 0 ? (
+            <div>
+              <h3 className="text-lg font-medium mb-2">Sources</h3>
+              <ol className="pl-5">
+                {structuredAnswer.sources.map((source) => (
+                  <li key={source.index} id={`source-${source.index}`} className="mb-2 target:bg-yellow-50">
+                    <div className="text-sm font-medium">
+                      [{source.index}] {source.documentName}
+                      {pageLabel(source)}
+                      {source.section ? ` (${source.section})` : ''}
+                    </div>
+                    <div className="text-sm text-gray-700">{source.content}</div>
+                  </li>
+                ))}
+              </ol>
+            </div>
+          ) : sources.length > 0 && (
             <div>
               <h3 className="text-lg font-medium mb-2">Sources</h3>
               <ul className="list-disc pl-5">
@@ -208,18 +434,31 @@ export default function KnowledgeBasePage() {
                   <th className="px-4 py-2 text-left">File Name</th>
                   <th className="px-4 py-2 text-left">Category</th>
                   <th className="px-4 py-2 text-left">Chunks</th>
+                  <th className="px-4 py-2 text-left">Version</th>
                   <th className="px-4 py-2 text-left">Created At</th>
+                  <th className="px-4 py-2 text-left" />
                 </tr>
               </thead>
               <tbody>
                 {documents.map((doc) => (
                   <tr key={doc.id} className="border-t">
                     <td className="px-4 py-2">{doc.fileName}</td>
-                    <td className="px-4 py-2">{doc.namespace.split('_')[0]}</td>
+                    <td className="px-4 py-2">{documentCategory(doc)}</td>
                     <td className="px-4 py-2">{doc.chunks}</td>
+                    <td className="px-4 py-2">
+                      {doc.version || 1} of {doc.versionCount}
+                    </td>
                     <td className="px-4 py-2">
                       {new Date(doc.createdAt).toLocaleString()}
                     </td>
+                    <td className="px-4 py-2">
+                      <button
+                        className="text-red-600 hover:underline"
+                        onClick={() => handleDelete(doc)}
+                      >
+                        Delete
+                      </button>
+                    </td>
                   </tr>
                 ))}
               </tbody>
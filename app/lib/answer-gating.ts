@@ -0,0 +1,114 @@
+import { VectorSearchResult } from './vector-store';
+
+/**
+ * Decides whether retrieved chunks are relevant enough to answer from, and how
+ * confident the answer is, so weak matches produce an honest "not covered"
+ * response instead of an improvised one.
+ */
+
+export interface RetrievalAssessment {
+  // Chunks at or above the similarity cutoff, or covering the query and above the keyword similarity floor, in retrieval order
+  chunks: VectorSearchResult[];
+  answerable: boolean;
+  // 0 (no usable context) to 1 (strong, consistent matches)
+  confidence: number;
+  bestSimilarity: number;
+  minSimilarity: number;
+  bestKeywordCoverage: number;
+  minKeywordCoverage: number;
+  minKeywordSimilarity: number;
+}
+
+// ada-002 similarities cluster between 0.7 and 0.9, so unrelated text still scores around 0.7
+export const DEFAULT_MIN_SIMILARITY = Number(process.env.KNOWLEDGE_MIN_SIMILARITY) || 0.78;
+
+// Similarity treated as a certain match when scaling confidence
+const SIMILARITY_CEILING = 0.92;
+
+// Share of the query's terms (weighted by rarity) a BM25 hit must contain to be
+// used below the similarity cutoff, so exact codes and part numbers that
+// embeddings blur together can still be answered
+export const DEFAULT_MIN_KEYWORD_COVERAGE = Number(process.env.KNOWLEDGE_MIN_KEYWORD_COVERAGE) || 0.7;
+
+// Such a keyword hit still needs this similarity, so an off-topic chunk that only
+// shares common words isn't used; ada-002 rates unrelated text around 0.7
+export const DEFAULT_MIN_KEYWORD_SIMILARITY = Number(process.env.KNOWLEDGE_MIN_KEYWORD_SIMILARITY) || 0.72;
+
+export const ESCALATION_CONTACT = process.env.SUPPORT_CONTACT_EMAIL || 'info@printform.com';
+
+/**
+ * Validate a similarity cutoff coming from a request body.
+ * Returns undefined for missing or out-of-range values so the default applies.
+ */
+export function parseMinSimilarity(input: any): number | undefined {
+  if (input === undefined || input === null || input === '') {
+    return undefined;
+  }
+
+  const value = Number(input);
+
+  return Number.isFinite(value) && value >= 0 && value <= 1 ? value : undefined;
+}
+
+function clamp(value: number): number {
+  return Math.min(Math.max(value, 0), 1);
+}
+
+/**
+ * Apply the similarity and keyword coverage cutoffs and score confidence from
+ * the best match, how many chunks cleared a cutoff, and the reranker's scores
+ * when present. A chunk below the similarity cutoff is only used when it covers
+ * the query and its similarity is at least minKeywordSimilarity.
+ */
+export function assessRetrieval(
+  results: VectorSearchResult[],
+  minSimilarity: number = DEFAULT_MIN_SIMILARITY,
+  minKeywordCoverage: number = DEFAULT_MIN_KEYWORD_COVERAGE,
+  minKeywordSimilarity: number = DEFAULT_MIN_KEYWORD_SIMILARITY
+): RetrievalAssessment {
+  // The floor never lies above the cutoff itself, e.g. when a request lowers the cutoff
+  const keywordFloor = Math.min(minKeywordSimilarity, minSimilarity);
+  const chunks = (results || []).filter(result =>
+    result.similarity >= minSimilarity ||
+    ((result.keywordCoverage ?? 0) >= minKeywordCoverage && result.similarity >= keywordFloor)
+  );
+  const bestSimilarity = (results || []).reduce((best, result) => Math.max(best, result.similarity), 0);
+  const bestKeywordCoverage = (results || []).reduce((best, result) => Math.max(best, result.keywordCoverage ?? 0), 0);
+  const cutoffs = { bestSimilarity, minSimilarity, bestKeywordCoverage, minKeywordCoverage, minKeywordSimilarity: keywordFloor };
+
+  if (chunks.length === 0) {
+    return { chunks, answerable: false, confidence: 0, ...cutoffs };
+  }
+
+  const ceiling = Math.max(SIMILARITY_CEILING, minSimilarity + 0.01);
+  const usableKeywordCoverage = chunks.reduce((best, chunk) => Math.max(best, chunk.keywordCoverage ?? 0), 0);
+  // A usable chunk that contains the whole query counts as strongly as a near-certain embedding match
+  const similarityScore = Math.max(
+    clamp((bestSimilarity - minSimilarity) / (ceiling - minSimilarity)),
+    minKeywordCoverage < 1 ? clamp((usableKeywordCoverage - minKeywordCoverage) / (1 - minKeywordCoverage)) : 0
+  );
+  const supportScore = chunks.length / results.length;
+  const rerankScores = chunks
+    .map(chunk => chunk.rerankScore)
+    .filter((score): score is number => typeof score === 'number');
+
+  // Blend the signals; without rerank scores the similarity carries that weight
+  const confidence = rerankScores.length > 0
+    ? 0.5 * similarityScore + 0.2 * supportScore + 0.3 * Math.max(...rerankScores)
+    : 0.8 * similarityScore + 0.2 * supportScore;
+
+  return {
+    chunks,
+    answerable: true,
+    // Anything that cleared the cutoff is at least somewhat supported
+    confidence: Math.round(Math.max(confidence, 0.1) * 100) / 100,
+    ...cutoffs,
+  };
+}
+
+// The response used when the knowledge base does not cover a question
+export function notCoveredAnswer(): string {
+  return `• The Printform manuals don't cover this question, so I can't give a reliable answer.
+• Try rephrasing it with the name of the module or screen you are working in.
+• For further help, contact Printform support at ${ESCALATION_CONTACT}.`;
+}
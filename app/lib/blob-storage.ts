@@ -0,0 +1,455 @@
+import { createHash, createHmac } from 'crypto';
+import { mkdir, mkdtemp, readdir, readFile, rm, stat, unlink, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { basename, dirname, join } from 'path';
+
+import createLogger from './logger';
+import { documentsDirectory, isServerlessEnvironment } from './init-storage';
+import { withRateLimitRetry } from './retry';
+
+// Create a logger for this module
+const logger = createLogger('BLOB-STORAGE');
+
+/**
+ * Where uploads, processed documents and the server's other persistent state
+ * (job records, conversations, the embedding cache) are kept.
+ *
+ * Keys are `/`-separated paths relative to the storage root, e.g.
+ * `manual_<uuid>.json` or `.index/bm25.json`. The local backend maps them to
+ * files in the documents directory; the S3 backend to objects in a bucket of
+ * AWS S3 or any S3-compatible service (MinIO, Cloudflare R2, ...), so
+ * serverless deployments, whose filesystem is ephemeral, keep their
+ * knowledge base between invocations.
+ */
+export interface BlobStorage {
+  readonly name: BlobStorageName;
+  // Directory or bucket URL, for log messages
+  readonly location: string;
+  put(key: string, data: Buffer | string): Promise<BlobInfo>;
+  // The blob's content, or null if there is none under the key
+  get(key: string): Promise<Buffer | null>;
+  // Every blob whose key starts with prefix, in any folder below it unless options.recursive is false
+  list(prefix?: string, options?: BlobListOptions): Promise<BlobInfo[]>;
+  // Deleting a key without a blob is not an error
+  delete(key: string): Promise<void>;
+}
+
+export interface BlobInfo {
+  key: string;
+  size: number;
+  // Changes whenever the blob is written
+  etag: string;
+  lastModified: Date;
+}
+
+export interface BlobListOptions {
+  // false to skip blobs in folders below the one the prefix points into
+  recursive?: boolean;
+}
+
+export type BlobStorageName = 'local' | 's3';
+
+// Folder (inside the storage root) holding background job state: upload jobs,
+// their embedding checkpoints and re-embedding progress
+export const JOBS_DIR_NAME = '.jobs';
+
+// Keys become file paths and URLs, so they can't climb out of the storage root
+export function isValidBlobKey(key: unknown): key is string {
+  return typeof key === 'string' &&
+    key.length > 0 &&
+    !key.startsWith('/') &&
+    !key.includes('\\') &&
+    key.split('/').every(segment => segment !== '' && segment !== '.' && segment !== '..');
+}
+
+function checkKey(key: string): void {
+  if (!isValidBlobKey(key)) {
+    throw new Error(`Invalid storage key: ${key}`);
+  }
+}
+
+/**
+ * Blobs as files below a directory. The directory is resolved on every call,
+ * so it follows `global.STORAGE_DIR` when storage initialization moves it.
+ */
+export class LocalBlobStorage implements BlobStorage {
+  readonly name = 'local';
+  private resolveDir: () => string;
+
+  constructor(resolveDir: () => string = documentsDirectory) {
+    this.resolveDir = resolveDir;
+  }
+
+  get location(): string {
+    return this.resolveDir();
+  }
+
+  // Path of the file holding a blob
+  pathOf(key: string): string {
+    checkKey(key);
+
+    return join(this.location, ...key.split('/'));
+  }
+
+  private async info(key: string): Promise<BlobInfo> {
+    const fileStats = await stat(this.pathOf(key));
+
+    // The modification time is what tells a rewritten file from the one that was cached
+    return { key, size: fileStats.size, etag: String(fileStats.mtimeMs), lastModified: fileStats.mtime };
+  }
+
+  async put(key: string, data: Buffer | string): Promise<BlobInfo> {
+    const filePath = this.pathOf(key);
+
+    await mkdir(dirname(filePath), { recursive: true });
+    await writeFile(filePath, data);
+
+    return this.info(key);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.pathOf(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  async list(prefix = '', { recursive = true }: BlobListOptions = {}): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+    // Only the folder the prefix points into has to be walked
+    const folder = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      let entries;
+
+      try {
+        entries = await readdir(relativeDir ? this.pathOf(relativeDir) : this.location, { withFileTypes: true });
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') {
+          return;
+        }
+
+        throw error;
+      }
+
+      for (const entry of entries) {
+        const key = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+        if (entry.isDirectory()) {
+          if (recursive) {
+            await walk(key);
+          }
+        } else if (entry.isFile() && key.startsWith(prefix)) {
+          // A file removed while the folder is walked has no info
+          const info = await this.info(key).catch(() => null);
+
+          if (info) {
+            blobs.push(info);
+          }
+        }
+      }
+    };
+
+    await walk(folder);
+
+    return blobs.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await unlink(this.pathOf(key)).catch(error => {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+  }
+}
+
+export interface S3BlobStorageOptions {
+  bucket: string;
+  // Service URL, e.g. http://localhost:9000 for MinIO; AWS S3 of the region by default
+  endpoint?: string;
+  region?: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  // Temporary credentials come with a session token
+  sessionToken?: string;
+  // Prepended to every key, so the knowledge base can share a bucket, e.g. "knowledge-base/"
+  prefix?: string;
+}
+
+// Thrown for unexpected S3 responses; status and headers let withRateLimitRetry decide on retries
+interface S3ResponseError extends Error {
+  status: number;
+  headers: Headers;
+}
+
+function sha256Hex(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+// URI encoding as S3 signatures require: everything but unreserved characters
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function xmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+// S3 quotes ETags; strip the quotes so listed and written ETags compare equal
+function unquote(etag: string | null | undefined): string {
+  return (etag || '').replace(/^"|"$/g, '');
+}
+
+/**
+ * Blobs as objects in an S3 bucket, through the S3 REST API with Signature
+ * Version 4 and path-style URLs (`<endpoint>/<bucket>/<key>`), which every
+ * S3-compatible service accepts.
+ */
+export class S3BlobStorage implements BlobStorage {
+  readonly name = 's3';
+  readonly location: string;
+  private endpoint: string;
+  private region: string;
+  private prefix: string;
+
+  constructor(private options: S3BlobStorageOptions) {
+    this.region = options.region || 'us-east-1';
+    this.endpoint = (options.endpoint || `https://s3.${this.region}.amazonaws.com`).replace(/\/+$/, '');
+    this.prefix = options.prefix || '';
+    this.location = `${this.endpoint}/${options.bucket}/${this.prefix}`;
+  }
+
+  // Sign a request with AWS Signature Version 4 and send it
+  private async send(method: string, key: string | null, query: Record<string, string> = {}, body?: Buffer): Promise<Response> {
+    const url = new URL(this.endpoint);
+    const objectPath = key === null ? '' : `/${(this.prefix + key).split('/').map(encodeRfc3986).join('/')}`;
+    const path = `${url.pathname.replace(/\/$/, '')}/${encodeRfc3986(this.options.bucket)}${objectPath}`;
+    const canonicalQuery = Object.keys(query)
+      .sort()
+      .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+      .join('&');
+    const timestamp = new Date().toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = timestamp.slice(0, 8);
+    const scope = `${date}/${this.region}/s3/aws4_request`;
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': sha256Hex(body || ''),
+      'x-amz-date': timestamp,
+      ...(this.options.sessionToken && { 'x-amz-security-token': this.options.sessionToken }),
+    };
+    const signedHeaders = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      path,
+      canonicalQuery,
+      ...signedHeaders.map(name => `${name}:${headers[name]}`),
+      '',
+      signedHeaders.join(';'),
+      headers['x-amz-content-sha256'],
+    ].join('\n');
+    const stringToSign = ['AWS4-HMAC-SHA256', timestamp, scope, sha256Hex(canonicalRequest)].join('\n');
+    const signingKey = hmac(hmac(hmac(hmac(`AWS4${this.options.secretAccessKey}`, date), this.region), 's3'), 'aws4_request');
+    const signature = createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+    // fetch sets Host itself, from the same URL
+    delete headers.host;
+    headers.authorization = `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders.join(';')}, Signature=${signature}`;
+
+    return withRateLimitRetry(async () => {
+      const response = await fetch(`${url.origin}${path}${canonicalQuery ? `?${canonicalQuery}` : ''}`, {
+        method,
+        headers,
+        body: body ? new Uint8Array(body) : undefined,
+      });
+
+      if (!response.ok && !(response.status === 404 && method === 'GET' && key !== null)) {
+        const text = await response.text().catch(() => '');
+        const error = new Error(
+          `S3 ${method} ${key ?? this.options.bucket} failed with ${response.status}: ${xmlValue(text, 'Message') || xmlValue(text, 'Code') || response.statusText}`
+        ) as S3ResponseError;
+
+        error.status = response.status;
+        error.headers = response.headers;
+        throw error;
+      }
+
+      return response;
+    }, { label: `S3 ${method} ${key ?? this.options.bucket}`, maxRetries: 3 });
+  }
+
+  async put(key: string, data: Buffer | string): Promise<BlobInfo> {
+    checkKey(key);
+
+    const body = typeof data === 'string' ? Buffer.from(data, 'utf-8') : data;
+    const response = await this.send('PUT', key, {}, body);
+
+    return { key, size: body.length, etag: unquote(response.headers.get('etag')), lastModified: new Date() };
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    checkKey(key);
+
+    const response = await this.send('GET', key);
+
+    return response.status === 404 ? null : Buffer.from(await response.arrayBuffer());
+  }
+
+  async list(prefix = '', { recursive = true }: BlobListOptions = {}): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+    let continuationToken: string | undefined;
+
+    // Listings come in pages of up to 1000 objects
+    do {
+      const response = await this.send('GET', null, {
+        'list-type': '2',
+        prefix: this.prefix + prefix,
+        // Objects in deeper folders are then only summarized as CommonPrefixes
+        ...(!recursive && { delimiter: '/' }),
+        ...(continuationToken && { 'continuation-token': continuationToken }),
+      });
+      const xml = await response.text();
+
+      for (const [, contents] of Array.from(xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g))) {
+        blobs.push({
+          key: (xmlValue(contents, 'Key') || '').slice(this.prefix.length),
+          size: Number(xmlValue(contents, 'Size')) || 0,
+          etag: unquote(xmlValue(contents, 'ETag')),
+          lastModified: new Date(xmlValue(contents, 'LastModified') || 0),
+        });
+      }
+
+      continuationToken = xmlValue(xml, 'IsTruncated') === 'true' ? xmlValue(xml, 'NextContinuationToken') : undefined;
+    } while (continuationToken);
+
+    return blobs;
+  }
+
+  async delete(key: string): Promise<void> {
+    checkKey(key);
+    await this.send('DELETE', key);
+  }
+}
+
+/**
+ * Validate a backend name from configuration.
+ * Returns undefined for missing or unknown values so the default applies.
+ */
+export function parseBlobStorageName(input: any): BlobStorageName | undefined {
+  return input === 'local' || input === 's3' ? input : undefined;
+}
+
+// S3 settings from S3_* variables, falling back to the standard AWS ones
+function s3OptionsFromEnv(): S3BlobStorageOptions {
+  const options = {
+    bucket: process.env.S3_BUCKET || '',
+    endpoint: process.env.S3_ENDPOINT,
+    region: process.env.S3_REGION || process.env.AWS_REGION,
+    accessKeyId: process.env.S3_ACCESS_KEY_ID || process.env.AWS_ACCESS_KEY_ID || '',
+    secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || process.env.AWS_SECRET_ACCESS_KEY || '',
+    sessionToken: process.env.S3_SESSION_TOKEN || process.env.AWS_SESSION_TOKEN,
+    prefix: process.env.S3_PREFIX,
+  };
+
+  if (!options.bucket || !options.accessKeyId || !options.secretAccessKey) {
+    throw new Error('STORAGE_BACKEND=s3 needs S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY');
+  }
+
+  return options;
+}
+
+/**
+ * Create a storage backend by name. Without a name, STORAGE_BACKEND decides,
+ * then S3 when S3_BUCKET is set, otherwise the local documents directory.
+ */
+export function createBlobStorage(name?: BlobStorageName, options?: S3BlobStorageOptions): BlobStorage {
+  const selected = name || parseBlobStorageName(process.env.STORAGE_BACKEND) || (options || process.env.S3_BUCKET ? 's3' : 'local');
+
+  if (selected === 'local') {
+    return new LocalBlobStorage();
+  }
+
+  return new S3BlobStorage(options || s3OptionsFromEnv());
+}
+
+// Shared instance for server code
+let sharedStorage: BlobStorage | null = null;
+
+export function getBlobStorage(): BlobStorage {
+  if (!sharedStorage) {
+    sharedStorage = createBlobStorage();
+    logger.info(`Using ${sharedStorage.name} storage at ${sharedStorage.location}`);
+
+    if (sharedStorage.name === 'local' && isServerlessEnvironment()) {
+      logger.warn('Documents are kept on the serverless filesystem and are lost when the function is recycled; set STORAGE_BACKEND=s3 to keep them');
+    }
+  }
+
+  return sharedStorage;
+}
+
+// A JSON blob, parsed, or null if there is none under the key
+export async function readJsonBlob<T>(storage: BlobStorage, key: string): Promise<T | null> {
+  const content = await storage.get(key);
+
+  return content ? JSON.parse(content.toString('utf-8')) as T : null;
+}
+
+export function writeJsonBlob(storage: BlobStorage, key: string, data: unknown): Promise<BlobInfo> {
+  return storage.put(key, JSON.stringify(data));
+}
+
+/**
+ * Run an operation on a blob as a local file, as parsers that read files from
+ * disk need. Local blobs are used in place; others are downloaded to a
+ * temporary file, which is removed afterwards.
+ * @param storage Storage holding the blob
+ * @param key The blob's key
+ * @param operation Receives the path of the file
+ */
+export async function withLocalFile<T>(storage: BlobStorage, key: string, operation: (filePath: string) => Promise<T>): Promise<T> {
+  if (storage instanceof LocalBlobStorage) {
+    return operation(storage.pathOf(key));
+  }
+
+  const data = await storage.get(key);
+
+  if (!data) {
+    throw new Error(`${key} was not found in ${storage.location}`);
+  }
+
+  const directory = await mkdtemp(join(tmpdir(), 'blob-'));
+  // Keep the file name, whose extension picks the parser
+  const filePath = join(directory, basename(key));
+
+  try {
+    await writeFile(filePath, data);
+
+    return await operation(filePath);
+  } finally {
+    await rm(directory, { recursive: true, force: true }).catch(() => undefined);
+  }
+}
+
+export default getBlobStorage;
@@ -0,0 +1,218 @@
+/**
+ * Okapi BM25 keyword index over chunk content.
+ *
+ * Complements embedding search for exact terms (part names, module names,
+ * error codes) that embeddings tend to blur together.
+ */
+
+export interface BM25Params {
+  k1: number;
+  b: number;
+}
+
+export interface SerializedBM25Index {
+  version: number;
+  params: BM25Params;
+  documents: Record<string, string>;
+  entries: Array<[string, number, Record<string, number>]>;
+}
+
+export interface BM25SearchResult {
+  key: string;
+  score: number;
+  // Share (0-1) of the query's terms found in the chunk, weighted by IDF
+  coverage: number;
+}
+
+interface BM25Entry {
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+export const BM25_INDEX_VERSION = 1;
+
+export const DEFAULT_BM25_PARAMS: BM25Params = {
+  k1: 1.2,
+  b: 0.75,
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to',
+  'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/**
+ * Split text into lowercase search terms. Hyphenated or dotted identifiers such
+ * as "ERR-1042" are kept whole in addition to their parts so codes match exactly.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  const words = (text || '').toLowerCase().match(/[a-z0-9]+(?:[-_.][a-z0-9]+)*/g) || [];
+
+  for (const word of words) {
+    const parts = word.split(/[-_.]/);
+
+    if (parts.length > 1) {
+      tokens.push(word);
+    }
+
+    for (const part of parts) {
+      if (part && !STOP_WORDS.has(part)) {
+        tokens.push(part);
+      }
+    }
+  }
+
+  return tokens;
+}
+
+export class BM25Index {
+  readonly params: BM25Params;
+  private entries = new Map<string, BM25Entry>();
+  private postings = new Map<string, Set<string>>();
+  private totalLength = 0;
+
+  // Signature of each indexed document, used to detect stale entries on load
+  documents: Record<string, string> = {};
+
+  constructor(params: Partial<BM25Params> = {}) {
+    this.params = { ...DEFAULT_BM25_PARAMS, ...params };
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  private addEntry(key: string, entry: BM25Entry): void {
+    this.entries.set(key, entry);
+    this.totalLength += entry.length;
+
+    for (const term of Array.from(entry.termFrequencies.keys())) {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Set());
+      }
+
+      this.postings.get(term)?.add(key);
+    }
+  }
+
+  add(key: string, text: string): void {
+    this.remove(key);
+
+    const tokens = tokenize(text);
+    const termFrequencies = new Map<string, number>();
+
+    for (const token of tokens) {
+      termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+    }
+
+    this.addEntry(key, { length: tokens.length, termFrequencies });
+  }
+
+  remove(key: string): boolean {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return false;
+    }
+
+    for (const term of Array.from(entry.termFrequencies.keys())) {
+      const keys = this.postings.get(term);
+
+      keys?.delete(key);
+
+      if (keys && keys.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalLength -= entry.length;
+    this.entries.delete(key);
+
+    return true;
+  }
+
+  search(query: string, k: number, filter?: (key: string) => boolean): BM25SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const total = this.entries.size;
+
+    if (terms.length === 0 || total === 0) {
+      return [];
+    }
+
+    const { k1, b } = this.params;
+    const averageLength = this.totalLength / total || 1;
+    const scores = new Map<string, number>();
+    const matchedWeights = new Map<string, number>();
+    let queryWeight = 0;
+
+    for (const term of terms) {
+      const keys = this.postings.get(term);
+      // Terms no chunk contains still count against coverage, weighted like a term in one chunk
+      const documentFrequency = Math.max(keys?.size || 0, 1);
+      // BM25+ style IDF that stays positive for very common terms
+      const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+      queryWeight += idf;
+
+      if (!keys || keys.size === 0) {
+        continue;
+      }
+
+      for (const key of Array.from(keys)) {
+        if (filter && !filter(key)) {
+          continue;
+        }
+
+        const entry = this.entries.get(key) as BM25Entry;
+        const frequency = entry.termFrequencies.get(term) || 0;
+        const score = idf * (frequency * (k1 + 1)) /
+          (frequency + k1 * (1 - b + b * (entry.length / averageLength)));
+
+        scores.set(key, (scores.get(key) || 0) + score);
+        matchedWeights.set(key, (matchedWeights.get(key) || 0) + idf);
+      }
+    }
+
+    return Array.from(scores.entries())
+      .map(([key, score]) => ({ key, score, coverage: (matchedWeights.get(key) || 0) / queryWeight }))
+      .sort((a, c) => c.score - a.score)
+      .slice(0, k);
+  }
+
+  serialize(): SerializedBM25Index {
+    return {
+      version: BM25_INDEX_VERSION,
+      params: this.params,
+      documents: this.documents,
+      entries: Array.from(this.entries.entries()).map(([key, entry]) => [
+        key,
+        entry.length,
+        Object.fromEntries(entry.termFrequencies),
+      ]),
+    };
+  }
+
+  static deserialize(data: SerializedBM25Index): BM25Index {
+    if (data.version !== BM25_INDEX_VERSION) {
+      throw new Error(`Unsupported BM25 index version: ${data.version}`);
+    }
+
+    const index = new BM25Index(data.params);
+
+    index.documents = data.documents || {};
+
+    for (const [key, length, termFrequencies] of data.entries) {
+      index.addEntry(key, { length, termFrequencies: new Map(Object.entries(termFrequencies)) });
+    }
+
+    return index;
+  }
+}
+
+export default BM25Index;
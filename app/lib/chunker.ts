@@ -0,0 +1,472 @@
+import { estimateTokens } from './conversation-store';
+
+/**
+ * Structure-aware chunking of manual text.
+ *
+ * Lines are classified as headings (Markdown `#`, numbered sections such as
+ * "3.1 Registration Page", all-caps titles), numbered steps, list items, table
+ * rows or plain text. Chunks never cross a heading, a run of steps is kept in
+ * one chunk whenever it fits, tables are only split between rows (repeating the
+ * header row), and consecutive chunks of a section overlap by a few sentences.
+ * Every chunk records the headings it sits under, e.g.
+ * ["Supplier Module", "Create PO", "Step 3"].
+ */
+
+export interface ChunkerOptions {
+  // Largest chunk, in estimated tokens
+  maxTokens?: number;
+  // Text repeated from the end of the previous chunk of the same section
+  overlapTokens?: number;
+}
+
+// Text of one page of the source document; page numbers start at 1
+export interface TextPage {
+  pageNumber: number;
+  text: string;
+}
+
+export interface DocumentChunk {
+  content: string;
+  // Enclosing headings, outermost first, ending with "Step n" when the chunk starts at a numbered step
+  headingPath: string[];
+  // Pages the chunk's text came from, when the source has pages
+  pageStart?: number;
+  pageEnd?: number;
+}
+
+export const DEFAULT_CHUNK_TOKENS = Number(process.env.CHUNK_MAX_TOKENS) || 250;
+
+export const DEFAULT_CHUNK_OVERLAP_TOKENS = Number(process.env.CHUNK_OVERLAP_TOKENS ?? 40) || 0;
+
+type LineKind = 'blank' | 'heading' | 'step' | 'bullet' | 'table' | 'text';
+
+interface ClassifiedLine {
+  kind: LineKind;
+  text: string;
+  // Heading depth
+  level?: number;
+  // Step number, or the number of a single-level numbered heading
+  number?: number;
+  page?: number;
+}
+
+// First and last page of a stretch of text
+interface PageRange {
+  start: number;
+  end: number;
+}
+
+// A heading or a run of body text between headings
+type Unit =
+  | { kind: 'heading'; level: number; title: string }
+  | { kind: 'paragraph' | 'table'; lines: string[]; pages?: PageRange }
+  | { kind: 'step'; lines: string[]; step: number; pages?: PageRange };
+
+// Text to pack into chunks, with the step it starts at and the pages it spans
+interface Piece {
+  text: string;
+  step?: number;
+  pages?: PageRange;
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.+?)\s*#*$/;
+// "3.1 Registration Page", "1. 2 Fill Out the Form"
+const MULTI_LEVEL_NUMBER = /^(\d{1,2}(?:\s?\.\s?\d{1,2})+)\.?\s*([A-Za-z].*)$/;
+// "1.Introduction", "3. Registration Process", "2) Click Save"
+const SINGLE_NUMBER = /^(\d{1,3})([.)])(\s*)(\S.*)$/;
+const STEP_LABEL = /^step\s*(\d{1,3})\b\s*[:.)\-–]?\s*(.*)$/i;
+const BULLET = /^(?:[●○◆➔•▪■►◦✓*\-–]|[a-z][).]\s|\([a-z0-9]\)\s)/;
+// Table of contents entries ("Introduction......... 3") are never headings
+const DOT_LEADER = /\.{4,}|…{2,}/;
+const TABLE_ROW = /(?:\|[^|]*){2,}|\t[^\t]*\t|\S {3,}\S.*\S {3,}\S/;
+
+// Short, unpunctuated text that reads like a title
+function isTitle(text: string): boolean {
+  const title = text.replace(/\s+[.:]$/, '').trim();
+
+  return title.length >= 2 &&
+    title.length <= 80 &&
+    title.split(/\s+/).length <= 10 &&
+    /^[A-Za-z]/.test(title) &&
+    !/[.,;:!?]$/.test(title);
+}
+
+// Every longer word capitalised, as in "Registration Process"
+function isTitleCase(text: string): boolean {
+  return text.split(/\s+/).every(word => word.length < 4 || !/^[a-z]/.test(word));
+}
+
+function cleanTitle(text: string): string {
+  return text.replace(/\s+[.:]$/, '').replace(/\s+/g, ' ').trim();
+}
+
+function classifyLine(raw: string): ClassifiedLine {
+  const text = raw.trim();
+
+  if (!text) {
+    return { kind: 'blank', text };
+  }
+
+  const markdown = text.match(MARKDOWN_HEADING);
+
+  if (markdown) {
+    return { kind: 'heading', text: cleanTitle(markdown[2]), level: markdown[1].length };
+  }
+
+  if (!DOT_LEADER.test(text)) {
+    const stepLabel = text.match(STEP_LABEL);
+
+    if (stepLabel) {
+      return { kind: 'step', text, number: Number(stepLabel[1]) };
+    }
+
+    const multiLevel = text.match(MULTI_LEVEL_NUMBER);
+
+    if (multiLevel && isTitle(multiLevel[2])) {
+      return { kind: 'heading', text: cleanTitle(multiLevel[2]), level: multiLevel[1].split('.').length };
+    }
+
+    const single = text.match(SINGLE_NUMBER);
+
+    if (single) {
+      const [, number, marker, gap, rest] = single;
+
+      // "1.Introduction" or "3. Registration Process" open a section; "1. Click Edit." is a step
+      if (marker === '.' && isTitle(rest) && (gap === '' || isTitleCase(rest))) {
+        return { kind: 'heading', text: cleanTitle(rest), level: 1, number: Number(number) };
+      }
+
+      return { kind: 'step', text, number: Number(number) };
+    }
+
+    if (text.length <= 60 && /[A-Z]{3}/.test(text) && text === text.toUpperCase() && isTitle(text)) {
+      return { kind: 'heading', text: cleanTitle(text), level: 1 };
+    }
+  }
+
+  if (BULLET.test(text)) {
+    return { kind: 'bullet', text };
+  }
+
+  if (TABLE_ROW.test(text)) {
+    return { kind: 'table', text };
+  }
+
+  return { kind: 'text', text };
+}
+
+function extendRange(range: PageRange | undefined, page: number | undefined): PageRange | undefined {
+  if (page === undefined) {
+    return range;
+  }
+
+  return range ? { start: Math.min(range.start, page), end: Math.max(range.end, page) } : { start: page, end: page };
+}
+
+function mergeRanges(first: PageRange | undefined, second: PageRange | undefined): PageRange | undefined {
+  return second ? extendRange(extendRange(first, second.start), second.end) : first;
+}
+
+// Page headers and footers repeated throughout an extracted PDF
+function repeatedLines(lines: string[]): Set<string> {
+  const counts = new Map<string, number>();
+
+  for (const line of lines) {
+    const text = line.trim();
+
+    if (text.length >= 20) {
+      counts.set(text, (counts.get(text) || 0) + 1);
+    }
+  }
+
+  return new Set(Array.from(counts.entries()).filter(([, count]) => count >= 3).map(([text]) => text));
+}
+
+// Group classified lines into headings, paragraphs, steps and tables
+function parseUnits(sourceLines: Array<{ text: string; page?: number }>): Unit[] {
+  const furniture = repeatedLines(sourceLines.map(line => line.text));
+  const units: Unit[] = [];
+  let current: Unit | null = null;
+  let blankSinceLast = false;
+  let lastStep = 0;
+
+  const finish = () => {
+    // A single aligned line is not a table
+    if (current?.kind === 'table' && current.lines.length < 2) {
+      current = { kind: 'paragraph', lines: current.lines, pages: current.pages };
+    }
+
+    if (current) {
+      units.push(current);
+    }
+
+    current = null;
+  };
+
+  const lines = sourceLines
+    .filter(line => !furniture.has(line.text.trim()))
+    .map(line => ({ ...classifyLine(line.text), page: line.page }));
+
+  // A numbered "heading" that continues or starts a numbered list ("5. Payment Terms", "1. INCH" / "2. MM") is a step
+  lines.forEach((line, index) => {
+    if (line.kind === 'heading' && line.number !== undefined) {
+      // Nested bullets between the items of a numbered list don't interrupt it
+      const next = lines.slice(index + 1).find(candidate => candidate.kind !== 'blank' && candidate.kind !== 'bullet');
+
+      if ((lastStep > 0 && line.number === lastStep + 1) || next?.number === line.number + 1) {
+        line.kind = 'step';
+        line.text = `${line.number}. ${line.text}`;
+      }
+    }
+
+    if (line.kind === 'step' || line.kind === 'heading') {
+      lastStep = line.kind === 'step' ? line.number || 0 : 0;
+    }
+  });
+
+  for (const line of lines) {
+    const open = current as Unit | null;
+    const pages = extendRange(undefined, line.page);
+
+    switch (line.kind) {
+      case 'blank':
+        if (open?.kind !== 'step') {
+          finish();
+        }
+        blankSinceLast = true;
+        continue;
+      case 'heading':
+        finish();
+        units.push({ kind: 'heading', level: line.level || 1, title: line.text });
+        break;
+      case 'step':
+        finish();
+        current = { kind: 'step', lines: [line.text], step: line.number || 1, pages };
+        break;
+      case 'bullet':
+        if (open && open.kind !== 'heading' && open.kind !== 'table') {
+          open.lines.push(line.text);
+          open.pages = extendRange(open.pages, line.page);
+        } else {
+          finish();
+          current = { kind: 'paragraph', lines: [line.text], pages };
+        }
+        break;
+      case 'table':
+        if (open?.kind === 'table') {
+          open.lines.push(line.text);
+          open.pages = extendRange(open.pages, line.page);
+        } else {
+          finish();
+          current = { kind: 'table', lines: [line.text], pages };
+        }
+        break;
+      default:
+        // Wrapped lines continue a step until a blank line; a paragraph after that ends the step list
+        if (open && open.kind !== 'heading' && (open.kind !== 'step' || !blankSinceLast) && open.kind !== 'table') {
+          open.lines.push(line.text);
+          open.pages = extendRange(open.pages, line.page);
+        } else {
+          finish();
+          current = { kind: 'paragraph', lines: [line.text], pages };
+        }
+    }
+
+    blankSinceLast = false;
+  }
+
+  finish();
+
+  return units;
+}
+
+// Split text into sentences, keeping their punctuation
+function sentences(text: string): string[] {
+  return text.match(/[^.!?\n]+(?:[.!?]+|\n|$)/g)?.map(sentence => sentence.trim()).filter(Boolean) || [text];
+}
+
+// Break text that is too long for one chunk at sentence, then word boundaries
+function splitText(text: string, maxTokens: number): string[] {
+  const parts: string[] = [];
+  let current = '';
+
+  const add = (piece: string, separator: string) => {
+    if (current && estimateTokens(current + separator + piece) > maxTokens) {
+      parts.push(current);
+      current = '';
+    }
+
+    current = current ? current + separator + piece : piece;
+  };
+
+  for (const sentence of sentences(text)) {
+    if (estimateTokens(sentence) <= maxTokens) {
+      add(sentence, ' ');
+    } else {
+      sentence.split(/\s+/).forEach(word => add(word, ' '));
+    }
+  }
+
+  if (current) {
+    parts.push(current);
+  }
+
+  return parts;
+}
+
+// Rows packed into pieces that fit, each starting with the header row
+function splitTable(lines: string[], maxTokens: number): string[] {
+  const [header, ...rows] = lines;
+  const parts: string[] = [];
+  let current = [header];
+
+  for (const row of rows) {
+    if (current.length > 1 && estimateTokens([...current, row].join('\n')) > maxTokens) {
+      parts.push(current.join('\n'));
+      current = [header];
+    }
+
+    current.push(row);
+  }
+
+  parts.push(current.join('\n'));
+
+  return parts.flatMap(part => (estimateTokens(part) > maxTokens ? splitText(part, maxTokens) : [part]));
+}
+
+// Body units of one section as pieces small enough to pack
+function sectionPieces(units: Unit[], maxTokens: number): Piece[] {
+  const pieces: Piece[] = [];
+
+  for (let index = 0; index < units.length; index++) {
+    const unit = units[index];
+
+    if (unit.kind === 'step') {
+      // Keep the whole run of consecutive steps together when it fits in one chunk
+      const run: Array<Unit & { kind: 'step' }> = [];
+
+      for (; index < units.length && units[index].kind === 'step'; index++) {
+        run.push(units[index] as Unit & { kind: 'step' });
+      }
+      index--;
+
+      const runText = run.map(step => step.lines.join('\n')).join('\n');
+
+      if (estimateTokens(runText) <= maxTokens) {
+        pieces.push({ text: runText, step: run[0].step, pages: run.reduce<PageRange | undefined>((range, step) => mergeRanges(range, step.pages), undefined) });
+        continue;
+      }
+
+      for (const step of run) {
+        splitText(step.lines.join('\n'), maxTokens).forEach(text => pieces.push({ text, step: step.step, pages: step.pages }));
+      }
+    } else if (unit.kind === 'table') {
+      splitTable(unit.lines, maxTokens).forEach(text => pieces.push({ text, pages: unit.pages }));
+    } else if (unit.kind === 'paragraph') {
+      const text = unit.lines.join('\n');
+
+      // Parts of a split paragraph keep the paragraph's page range
+      (estimateTokens(text) <= maxTokens ? [text] : splitText(text, maxTokens)).forEach(part => pieces.push({ text: part, pages: unit.pages }));
+    }
+  }
+
+  return pieces;
+}
+
+// End of the previous chunk, in whole sentences, repeated at the start of the next one
+function overlapTail(text: string, overlapTokens: number): string {
+  const tail: string[] = [];
+  let tokens = 0;
+
+  for (const sentence of sentences(text).reverse()) {
+    tokens += estimateTokens(sentence);
+
+    if (tokens > overlapTokens) {
+      break;
+    }
+
+    tail.unshift(sentence);
+  }
+
+  return tail.join(' ');
+}
+
+/**
+ * Split document text into chunks that follow its headings, steps and tables.
+ * Given the text page by page, each chunk also records the pages it came from.
+ */
+export function chunkDocument(input: string | TextPage[], options: ChunkerOptions = {}): DocumentChunk[] {
+  const maxTokens = Math.max(16, options.maxTokens ?? DEFAULT_CHUNK_TOKENS);
+  const overlapTokens = Math.min(Math.max(0, options.overlapTokens ?? DEFAULT_CHUNK_OVERLAP_TOKENS), Math.floor(maxTokens / 2));
+  const splitLines = (text: string) => text.replace(/\r\n?/g, '\n').split('\n');
+  const units = parseUnits(
+    typeof input === 'string'
+      ? splitLines(input).map(text => ({ text }))
+      : input.flatMap(page => [...splitLines(page.text).map(text => ({ text, page: page.pageNumber })), { text: '' }])
+  );
+  const chunks: DocumentChunk[] = [];
+  const headings: Array<{ level: number; title: string }> = [];
+
+  const packSection = (body: Unit[]) => {
+    const path = headings.map(heading => heading.title);
+    let parts: string[] = [];
+    let firstStep: number | undefined;
+    // Pages of the text new to this chunk (not the overlap)
+    let pages: PageRange | undefined;
+    let hasNewContent = false;
+
+    const flush = () => {
+      if (hasNewContent) {
+        chunks.push({
+          content: parts.join('\n\n'),
+          headingPath: firstStep !== undefined ? [...path, `Step ${firstStep}`] : path,
+          ...(pages && { pageStart: pages.start, pageEnd: pages.end }),
+        });
+      }
+    };
+
+    for (const piece of sectionPieces(body, maxTokens)) {
+      if (hasNewContent && estimateTokens([...parts, piece.text].join('\n\n')) > maxTokens) {
+        flush();
+
+        const overlap = overlapTokens > 0 ? overlapTail(parts[parts.length - 1], overlapTokens) : '';
+
+        parts = overlap && estimateTokens(`${overlap}\n\n${piece.text}`) <= maxTokens ? [overlap] : [];
+        firstStep = undefined;
+        pages = undefined;
+        hasNewContent = false;
+      }
+
+      parts.push(piece.text);
+      pages = mergeRanges(pages, piece.pages);
+      firstStep = hasNewContent ? firstStep : piece.step;
+      hasNewContent = true;
+    }
+
+    flush();
+  };
+
+  let body: Unit[] = [];
+
+  for (const unit of units) {
+    if (unit.kind !== 'heading') {
+      body.push(unit);
+      continue;
+    }
+
+    packSection(body);
+    body = [];
+
+    while (headings.length > 0 && headings[headings.length - 1].level >= unit.level) {
+      headings.pop();
+    }
+
+    headings.push({ level: unit.level, title: unit.title });
+  }
+
+  packSection(body);
+
+  return chunks;
+}
+
+export default chunkDocument;
@@ -0,0 +1,214 @@
+import { ChunkMetadata, VectorSearchResult } from './vector-store';
+
+/**
+ * Numbered source citations for knowledge base answers: the retrieved chunks
+ * are numbered in the prompt, the model cites them as [n], and the citations
+ * are validated against that list before the answer is returned.
+ */
+
+export interface CitedSource {
+  // 1-based number used in the prompt and in [n] markers
+  index: number;
+  documentId: string;
+  documentName: string;
+  page?: number;
+  // Last page, when the chunk runs over several pages
+  pageEnd?: number;
+  // Heading path of the chunk, e.g. "Supplier Module > Create PO > Step 3"
+  section?: string;
+  chunk: number;
+  content: string;
+}
+
+export interface CitationReference {
+  index: number;
+  documentName: string;
+  page?: number;
+  pageEnd?: number;
+}
+
+export interface AnswerBullet {
+  text: string;
+  citations: CitationReference[];
+}
+
+export interface StructuredAnswer {
+  bullets: AnswerBullet[];
+  sources: CitedSource[];
+  // [n] markers that did not match a supplied chunk and were removed
+  invalidCitations: number[];
+}
+
+// Matches [1], [1, 3] and [1-2] style markers
+const CITATION_PATTERN = /\[(\d+(?:\s*[,\-–]\s*\d+)*)\]/g;
+
+// Lines starting with a bullet or list number begin a new answer bullet
+const BULLET_PATTERN = /^\s*(?:[•\-*]|\d+[.)])\s+/;
+
+/**
+ * Human-readable document name from a chunk source path. Uploads are stored as
+ * "<category>_<timestamp>_<name>", so that prefix is removed.
+ */
+export function documentDisplayName(source: string): string {
+  const fileName = (source || 'unknown').split(/[\\/]/).pop() || 'unknown';
+
+  return fileName.replace(/^[^_]+_\d{10,}_/, '');
+}
+
+// First page a chunk came from, when the extractor recorded it
+export function chunkPage(metadata: ChunkMetadata): number | undefined {
+  const page = metadata?.pageStart ?? metadata?.page;
+
+  return typeof page === 'number' && page > 0 ? page : undefined;
+}
+
+// Last page of a chunk that spans several pages
+export function chunkPageEnd(metadata: ChunkMetadata): number | undefined {
+  const start = chunkPage(metadata);
+  const end = metadata?.pageEnd;
+
+  return start !== undefined && typeof end === 'number' && end > start ? end : undefined;
+}
+
+// "page 4" or "pages 4-5"
+export function formatPages(page?: number, pageEnd?: number): string | undefined {
+  if (!page) {
+    return undefined;
+  }
+
+  return pageEnd ? `pages ${page}-${pageEnd}` : `page ${page}`;
+}
+
+export function toCitedSources(chunks: VectorSearchResult[]): CitedSource[] {
+  return chunks.map((chunk, position) => ({
+    index: position + 1,
+    documentId: chunk.documentId,
+    documentName: documentDisplayName(chunk.metadata?.source),
+    page: chunkPage(chunk.metadata),
+    pageEnd: chunkPageEnd(chunk.metadata),
+    section: chunk.metadata?.headingPath || undefined,
+    chunk: chunk.metadata?.chunk ?? position,
+    content: chunk.content,
+  }));
+}
+
+/**
+ * Render numbered context for the prompt, e.g.
+ * "[1] (QUOTE_TO_ORDER_User_Guide.pdf, page 4, Create Quote > Step 2)\n<content>".
+ */
+export function formatCitationContext(sources: CitedSource[]): string {
+  return sources
+    .map(source => {
+      const location = [source.documentName, formatPages(source.page, source.pageEnd), source.section].filter(Boolean).join(', ');
+
+      return `[${source.index}] (${location})\n${source.content}`;
+    })
+    .join('\n\n');
+}
+
+// Expand the numbers inside one marker, e.g. "1, 3", "2-4" or the reversed "4-2"
+function expandMarker(marker: string): number[] {
+  const numbers: number[] = [];
+
+  for (const part of marker.split(',')) {
+    const [first, last] = part.split(/[\-–]/).map(value => parseInt(value.trim(), 10));
+
+    if (last === undefined || Number.isNaN(last)) {
+      numbers.push(first);
+    } else {
+      const start = Math.min(first, last);
+      const end = Math.max(first, last);
+
+      for (let n = start; n <= end && n - start < 20; n++) {
+        numbers.push(n);
+      }
+    }
+  }
+
+  return numbers;
+}
+
+// Numbers of a citation marker, or undefined for bracketed numbers that are
+// clearly not citations, e.g. a year such as [2024] in quoted text
+function markerNumbers(marker: string): number[] | undefined {
+  const numbers = /\d{4}/.test(marker) ? [] : expandMarker(marker).filter(n => !Number.isNaN(n));
+
+  // A marker that expands to nothing would otherwise vanish from the answer without a trace
+  return numbers.length > 0 ? numbers : undefined;
+}
+
+/**
+ * Remove citations that do not refer to a supplied source and split the answer
+ * into bullets, each carrying the documents it cites. Four-digit bracketed
+ * numbers aren't citations and stay in the text.
+ */
+export function parseCitedAnswer(
+  answer: string,
+  sources: CitedSource[]
+): { text: string; structured: StructuredAnswer } {
+  const byIndex = new Map(sources.map(source => [source.index, source]));
+  const invalid = new Set<number>();
+
+  const text = (answer || '').replace(CITATION_PATTERN, (match, marker: string) => {
+    const numbers = markerNumbers(marker);
+
+    if (!numbers) {
+      return match;
+    }
+
+    const valid = numbers.filter(n => {
+      if (!byIndex.has(n)) {
+        invalid.add(n);
+      }
+
+      return byIndex.has(n);
+    });
+
+    return Array.from(new Set(valid)).map(n => `[${n}]`).join('');
+  }).replace(/[ \t]+$/gm, '');
+
+  // Group continuation lines with the bullet they belong to
+  const blocks: string[] = [];
+
+  for (const line of text.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    if (BULLET_PATTERN.test(line) || blocks.length === 0) {
+      blocks.push(line.trim());
+    } else {
+      blocks[blocks.length - 1] += ` ${line.trim()}`;
+    }
+  }
+
+  const bullets = blocks.map(block => {
+    const cited = new Set<number>();
+
+    const withoutCitations = block.replace(CITATION_PATTERN, (match, marker: string) => {
+      const numbers = markerNumbers(marker)?.filter(n => byIndex.has(n));
+
+      numbers?.forEach(n => cited.add(n));
+
+      return numbers ? '' : match;
+    });
+
+    return {
+      text: withoutCitations.replace(BULLET_PATTERN, '').replace(/\s+/g, ' ').replace(/ ([.,;:])/g, '$1').trim(),
+      citations: Array.from(cited).sort((a, b) => a - b).map(n => {
+        const source = byIndex.get(n) as CitedSource;
+
+        return { index: n, documentName: source.documentName, page: source.page, pageEnd: source.pageEnd };
+      }),
+    };
+  });
+
+  return {
+    text,
+    structured: {
+      bullets,
+      sources,
+      invalidCitations: Array.from(invalid).sort((a, b) => a - b),
+    },
+  };
+}
@@ -0,0 +1,159 @@
+import { randomUUID } from 'crypto';
+
+import createLogger from './logger';
+import { BlobStorage, getBlobStorage, readJsonBlob, writeJsonBlob } from './blob-storage';
+
+// Create a logger for this module
+const logger = createLogger('CONVERSATIONS');
+
+export interface ConversationMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface Conversation {
+  id: string;
+  messages: ConversationMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationStore {
+  load(id: string): Promise<Conversation | null>;
+  save(conversation: Conversation): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// Tokens of earlier turns sent with each question; the oldest turns are dropped first
+export const DEFAULT_HISTORY_TOKEN_BUDGET = Number(process.env.CONVERSATION_TOKEN_BUDGET) || 2000;
+
+// Turns kept in storage per conversation, regardless of the prompt budget
+const MAX_STORED_MESSAGES = 50;
+
+// Folder (inside the storage root) holding one JSON file per conversation
+export const CONVERSATIONS_DIR_NAME = '.conversations';
+
+// Conversation IDs become storage keys, so only allow a safe character set
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9_-]{1,100}$/;
+
+export function createConversationId(): string {
+  return `thread_${randomUUID().replace(/-/g, '')}`;
+}
+
+export function isValidConversationId(id: unknown): id is string {
+  return typeof id === 'string' && CONVERSATION_ID_PATTERN.test(id);
+}
+
+export function createConversation(id: string = createConversationId()): Conversation {
+  const now = new Date().toISOString();
+
+  return { id, messages: [], createdAt: now, updatedAt: now };
+}
+
+// Rough token count (about four characters per token for English text)
+export function estimateTokens(text: string): number {
+  return Math.ceil((text || '').length / 4);
+}
+
+/**
+ * Keep the most recent messages that fit within the token budget. History never
+ * starts with an assistant turn, so the model doesn't see an answer without its question.
+ */
+export function trimToTokenBudget(messages: ConversationMessage[], budget: number): ConversationMessage[] {
+  let used = 0;
+  let start = messages.length;
+
+  while (start > 0) {
+    const tokens = estimateTokens(messages[start - 1].content) + 4; // per-message overhead
+
+    if (used + tokens > budget) {
+      break;
+    }
+
+    used += tokens;
+    start--;
+  }
+
+  while (start < messages.length && messages[start].role === 'assistant') {
+    start++;
+  }
+
+  return messages.slice(start);
+}
+
+/**
+ * Conversation store kept in the blob storage (see blob-storage.ts).
+ *
+ * Each conversation lives in `.conversations/<id>.json`. It is read from
+ * storage for every question, since the previous turn may have been answered
+ * by another server instance; the in-memory copy is only used when storage
+ * can't be read or written.
+ */
+export class FileConversationStore implements ConversationStore {
+  private cache = new Map<string, Conversation>();
+  private storage: BlobStorage;
+
+  constructor(storage?: BlobStorage) {
+    this.storage = storage || getBlobStorage();
+  }
+
+  private key(id: string): string {
+    if (!isValidConversationId(id)) {
+      throw new Error(`Invalid conversation ID: ${id}`);
+    }
+
+    return `${CONVERSATIONS_DIR_NAME}/${id}.json`;
+  }
+
+  async load(id: string): Promise<Conversation | null> {
+    try {
+      const conversation = await readJsonBlob<Conversation>(this.storage, this.key(id));
+
+      if (conversation) {
+        this.cache.set(id, conversation);
+
+        return conversation;
+      }
+    } catch (error) {
+      logger.warn(`Could not read conversation ${id}:`, error);
+    }
+
+    return this.cache.get(id) || null;
+  }
+
+  async save(conversation: Conversation): Promise<void> {
+    conversation.messages = conversation.messages.slice(-MAX_STORED_MESSAGES);
+    conversation.updatedAt = new Date().toISOString();
+    this.cache.set(conversation.id, conversation);
+
+    // In-memory history still works for this process if storage isn't writable
+    try {
+      await writeJsonBlob(this.storage, this.key(conversation.id), conversation);
+    } catch (error) {
+      logger.warn(`Could not persist conversation ${conversation.id}:`, error);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    this.cache.delete(id);
+
+    try {
+      await this.storage.delete(this.key(id));
+    } catch {
+      // Nothing stored for this conversation
+    }
+  }
+}
+
+// Shared instance so conversations stay cached across requests
+let sharedStore: ConversationStore | null = null;
+
+export function getConversationStore(): ConversationStore {
+  if (!sharedStore) {
+    sharedStore = new FileConversationStore();
+  }
+
+  return sharedStore;
+}
+
+export default getConversationStore;
@@ -0,0 +1,77 @@
+/**
+ * Parse CSV exports (e.g. material tables) and render them as `| cell |` table
+ * rows for the chunker, which repeats the header row in every chunk of the table.
+ */
+
+const DELIMITERS = [',', ';', '\t'];
+
+// The delimiter used most often on the first line, outside quotes
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '');
+
+  return DELIMITERS.reduce((best, delimiter) =>
+    firstLine.split(delimiter).length > firstLine.split(best).length ? delimiter : best
+  );
+}
+
+/**
+ * Parse CSV text into rows of fields. Handles quoted fields with embedded
+ * delimiters, line breaks and doubled quotes.
+ * @param text The CSV source
+ * @param delimiter Field separator; detected from the first line when omitted
+ */
+export function parseCSV(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const source = text.replace(/^﻿/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') {
+        i++;
+      }
+
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(fields => fields.some(value => value.trim() !== ''));
+}
+
+/**
+ * Render CSV text as table rows, header first
+ * @param text The CSV source
+ */
+export function csvToTableText(text: string): string {
+  return parseCSV(text)
+    .map(fields => `| ${fields.map(value => value.replace(/\s+/g, ' ').replace(/\|/g, '/').trim()).join(' | ')} |`)
+    .join('\n');
+}
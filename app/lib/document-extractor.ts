@@ -0,0 +1,382 @@
+import { readFile, stat } from 'fs/promises';
+import { extname } from 'path';
+
+import createLogger from './logger';
+import { extractPagesFromPDF, extractTextFromPDF } from './pdf-utils';
+import { findScannedPages, needsOcr, OCR_ENABLED, ocrPdfPages } from './ocr-utils';
+import { extractTextFromDOCX } from './docx-utils';
+import { htmlToStructuredText } from './html-utils';
+import { csvToTableText } from './csv-utils';
+import { TextPage } from './chunker';
+
+// Create a logger for this module
+const logger = createLogger('EXTRACTOR');
+
+/**
+ * Text extraction for every upload format.
+ *
+ * Each format has an extractor that turns a saved file into plain text the
+ * chunker understands: headings as Markdown `#` lines, list items as `-` or
+ * `1.` lines and table rows as `| cell | cell |` lines.
+ *
+ * Extraction never hands error text on as content: it either succeeds, is
+ * partial (usable text, but some of it may be missing) or fails with a reason
+ * that maps to an HTTP status.
+ */
+
+// Text of an upload, page by page when the format has pages
+export interface ExtractedText {
+  content: string;
+  pages?: TextPage[];
+  // Pages whose text was recognised by OCR
+  ocrPages?: number[];
+}
+
+export type ExtractionStatus = 'success' | 'partial' | 'failed';
+
+// Why an upload has no usable text
+export type ExtractionFailureReason =
+  | 'unsupported-format'
+  | 'empty-file'
+  | 'unreadable'
+  | 'corrupt'
+  | 'no-text'
+  | 'ocr-unavailable';
+
+// Why some of an upload's text may be missing
+export type ExtractionWarningReason = 'no-page-numbers' | 'pages-without-text' | 'ocr-failed' | 'error-text-removed';
+
+export interface ExtractionWarning {
+  reason: ExtractionWarningReason;
+  message: string;
+  pages?: number[];
+}
+
+export type ExtractionResult =
+  | (ExtractedText & { status: 'success' })
+  | (ExtractedText & { status: 'partial'; warnings: ExtractionWarning[] })
+  | { status: 'failed'; reason: ExtractionFailureReason; message: string };
+
+// An extraction result without its text, as recorded on ingestion jobs and documents
+export interface ExtractionReport {
+  status: ExtractionStatus;
+  reason?: ExtractionFailureReason;
+  message?: string;
+  warnings?: ExtractionWarning[];
+}
+
+// HTTP status for each failure: 4xx when the file itself can't be used, 5xx when the server couldn't read it
+export const EXTRACTION_FAILURE_STATUS: Record<ExtractionFailureReason, number> = {
+  'unsupported-format': 415,
+  'empty-file': 422,
+  corrupt: 422,
+  'no-text': 422,
+  unreadable: 500,
+  'ocr-unavailable': 503,
+};
+
+export interface DocumentExtractor {
+  // Name shown in logs and errors
+  format: string;
+  // Lower-case file extensions, with the dot
+  extensions: string[];
+  // May throw if the file can't be parsed; extractDocument reports that as a corrupt file
+  extract(filePath: string): Promise<ExtractionResult>;
+}
+
+// Placeholders that older versions of extractTextFromPDF returned instead of throwing.
+// Keep in sync with scripts/purge-extraction-errors.js.
+const EXTRACTION_ERROR_TEXT = [
+  /^\[PDF EXTRACTION FAILED:/,
+  /^Error extracting text from PDF:/,
+  /^PDF file is empty \(0 bytes\)/,
+  /^PDF file could not be read\./,
+  /^PDF file does not exist or is not accessible:/,
+  /^No text content found in PDF$/,
+];
+
+/**
+ * Whether text is an extraction error message rather than document content
+ * @param text Extracted text or a stored chunk
+ */
+export function isExtractionErrorText(text: string): boolean {
+  const trimmed = text.trim();
+
+  return EXTRACTION_ERROR_TEXT.some(pattern => pattern.test(trimmed));
+}
+
+function extracted(text: ExtractedText, warnings: ExtractionWarning[] = []): ExtractionResult {
+  return warnings.length > 0 ? { ...text, status: 'partial', warnings } : { ...text, status: 'success' };
+}
+
+function failed(reason: ExtractionFailureReason, message: string): ExtractionResult {
+  return { status: 'failed', reason, message };
+}
+
+/**
+ * The result without its text
+ * @param result Result of extractDocument
+ */
+export function extractionReport(result: ExtractionResult): ExtractionReport {
+  if (result.status === 'failed') {
+    return { status: 'failed', reason: result.reason, message: result.message };
+  }
+
+  return result.status === 'partial' ? { status: 'partial', warnings: result.warnings } : { status: 'success' };
+}
+
+async function readTextFile(filePath: string): Promise<string> {
+  try {
+    return (await readFile(filePath, 'utf-8')).replace(/^﻿/, '');
+  } catch (readError) {
+    throw new Error(`Failed to read text file: ${readError instanceof Error ? readError.message : String(readError)}`);
+  }
+}
+
+/**
+ * Normalise Markdown for the chunker: drop front matter, comments and table
+ * separator rows, turn underlined headings into `#` headings and keep only the
+ * text of links and images.
+ * @param markdown The Markdown source
+ */
+export function markdownToStructuredText(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/^(\S.*)\n=+[ \t]*$/gm, '# $1')
+    .replace(/^(\S.*)\n-+[ \t]*$/gm, '## $1')
+    .replace(/^[ \t]*\|?(?:[ \t]*:?-+:?[ \t]*\|)+(?:[ \t]*:?-+:?[ \t]*)?[ \t]*$\n?/gm, '')
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .trim();
+}
+
+interface OcrOutcome {
+  // Pages that look like scans
+  scanned: number[];
+  ocrPages: number[];
+  warnings: ExtractionWarning[];
+  // Set when OCR couldn't read any scanned page
+  error?: string;
+}
+
+// Pages without a text layer that are mostly one image (scans) are read with OCR
+async function recogniseScannedPages(filePath: string, pages: TextPage[]): Promise<OcrOutcome> {
+  const scanned = await findScannedPages(filePath, pages);
+
+  if (scanned.length === 0) {
+    return { scanned, ocrPages: [], warnings: [] };
+  }
+
+  if (!OCR_ENABLED) {
+    logger.warn(`${scanned.length} pages have no text layer and OCR is disabled`);
+
+    return {
+      scanned,
+      ocrPages: [],
+      warnings: [{ reason: 'pages-without-text', message: 'Pages without a text layer were skipped because OCR is disabled', pages: scanned }],
+    };
+  }
+
+  try {
+    const { pages: recognised, failures } = await ocrPdfPages(filePath, scanned);
+
+    for (const result of recognised) {
+      const page = pages.find(candidate => candidate.pageNumber === result.pageNumber);
+
+      if (page) {
+        page.text = result.text;
+      }
+    }
+
+    const ocrPages = recognised.map(result => result.pageNumber);
+    const failedPages = failures.map(failure => failure.pageNumber);
+    const unread = scanned.filter(pageNumber => !ocrPages.includes(pageNumber) && !failedPages.includes(pageNumber));
+    const warnings: ExtractionWarning[] = [];
+
+    if (unread.length > 0) {
+      warnings.push({ reason: 'pages-without-text', message: 'OCR found no legible text on some pages', pages: unread });
+    }
+
+    if (failures.length > 0) {
+      warnings.push({ reason: 'ocr-failed', message: `OCR failed on some pages: ${failures[0].error}`, pages: failedPages });
+    }
+
+    return {
+      scanned,
+      ocrPages,
+      warnings,
+      ...(failures.length === scanned.length && { error: failures[0].error }),
+    };
+  } catch (ocrError) {
+    const message = ocrError instanceof Error ? ocrError.message : String(ocrError);
+
+    logger.warn(`OCR failed on ${scanned.length} scanned pages:`, message);
+
+    return {
+      scanned,
+      ocrPages: [],
+      warnings: [{ reason: 'ocr-failed', message: `OCR failed: ${message}`, pages: scanned }],
+      error: message,
+    };
+  }
+}
+
+const pdfExtractor: DocumentExtractor = {
+  format: 'PDF',
+  extensions: ['.pdf'],
+  async extract(filePath) {
+    let pages: TextPage[];
+
+    try {
+      pages = await extractPagesFromPDF(filePath);
+    } catch (pageError) {
+      logger.warn(`Page-by-page extraction failed, falling back to plain text without page numbers:`, pageError);
+
+      const content = await extractTextFromPDF(filePath);
+
+      if (needsOcr(content)) {
+        return failed('no-text', 'No text could be extracted from this PDF');
+      }
+
+      return extracted({ content }, [{ reason: 'no-page-numbers', message: 'The PDF was read without page numbers' }]);
+    }
+
+    const { scanned, ocrPages, warnings, error } = await recogniseScannedPages(filePath, pages);
+
+    // Short pages without scans, e.g. a one-page title sheet, are indexed as they are
+    if (scanned.length > 0 && pages.every(page => needsOcr(page.text))) {
+      if (error) {
+        return failed('ocr-unavailable', `This PDF has no text layer and OCR failed: ${error}`);
+      }
+
+      return failed(
+        'no-text',
+        OCR_ENABLED
+          ? 'No text could be extracted from this PDF, even with OCR. Check that the scan is legible.'
+          : 'No text could be extracted from this PDF. It looks like a scan; enable OCR to read it.'
+      );
+    }
+
+    return extracted(
+      {
+        content: pages.map(page => page.text).join('\n\n'),
+        pages,
+        ...(ocrPages.length > 0 && { ocrPages }),
+      },
+      warnings
+    );
+  },
+};
+
+const textExtractor: DocumentExtractor = {
+  format: 'Text',
+  extensions: ['.txt'],
+  async extract(filePath) {
+    return extracted({ content: await readTextFile(filePath) });
+  },
+};
+
+const markdownExtractor: DocumentExtractor = {
+  format: 'Markdown',
+  extensions: ['.md', '.markdown'],
+  async extract(filePath) {
+    return extracted({ content: markdownToStructuredText(await readTextFile(filePath)) });
+  },
+};
+
+const htmlExtractor: DocumentExtractor = {
+  format: 'HTML',
+  extensions: ['.html', '.htm'],
+  async extract(filePath) {
+    return extracted({ content: htmlToStructuredText(await readTextFile(filePath)) });
+  },
+};
+
+const csvExtractor: DocumentExtractor = {
+  format: 'CSV',
+  extensions: ['.csv'],
+  async extract(filePath) {
+    return extracted({ content: csvToTableText(await readTextFile(filePath)) });
+  },
+};
+
+const docxExtractor: DocumentExtractor = {
+  format: 'Word',
+  extensions: ['.docx'],
+  async extract(filePath) {
+    return extracted({ content: await extractTextFromDOCX(filePath) });
+  },
+};
+
+const extractors: DocumentExtractor[] = [
+  pdfExtractor,
+  textExtractor,
+  markdownExtractor,
+  htmlExtractor,
+  csvExtractor,
+  docxExtractor,
+];
+
+// Every extension an upload may have
+export const SUPPORTED_EXTENSIONS = extractors.flatMap(extractor => extractor.extensions);
+
+/**
+ * The extractor for a file, chosen by its extension
+ * @param fileName Name or path of the file
+ * @returns The extractor, or null if the format isn't supported
+ */
+export function getDocumentExtractor(fileName: string): DocumentExtractor | null {
+  const extension = extname(fileName).toLowerCase();
+
+  return extractors.find(extractor => extractor.extensions.includes(extension)) || null;
+}
+
+/**
+ * Extract the text of a saved upload with the extractor for its format
+ * @param filePath Path to the saved upload
+ * @returns The text, or why there is none
+ */
+export async function extractDocument(filePath: string): Promise<ExtractionResult> {
+  const extractor = getDocumentExtractor(filePath);
+
+  if (!extractor) {
+    return failed('unsupported-format', `Unsupported file type: ${extname(filePath) || 'no extension'}. Supported types: ${SUPPORTED_EXTENSIONS.join(', ')}`);
+  }
+
+  try {
+    const fileStats = await stat(filePath);
+
+    if (fileStats.size === 0) {
+      return failed('empty-file', 'File is empty (0 bytes)');
+    }
+  } catch (statError) {
+    return failed('unreadable', `File does not exist or is not accessible: ${statError instanceof Error ? statError.message : String(statError)}`);
+  }
+
+  logger.info(`Extracting ${extractor.format} text from ${filePath}`);
+
+  let result: ExtractionResult;
+
+  try {
+    result = await extractor.extract(filePath);
+  } catch (extractError) {
+    return failed('corrupt', `Could not read this ${extractor.format} file: ${extractError instanceof Error ? extractError.message : String(extractError)}`);
+  }
+
+  if (result.status === 'failed') {
+    return result;
+  }
+
+  if (!/[\p{L}\p{N}]/u.test(result.content)) {
+    return failed('no-text', `No text found in this ${extractor.format} file`);
+  }
+
+  // e.g. a .txt file saved from an older PDF conversion that failed
+  if (isExtractionErrorText(result.content)) {
+    return failed('no-text', `The file only contains an extraction error message: ${result.content.trim().slice(0, 200)}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+
+import createLogger from './logger';
+import { DocumentMetadata, documentIdOf, documentVersionOf, isActiveVersion, VectorStore } from './vector-store';
+
+// Create a logger for this module
+const logger = createLogger('FINGERPRINT');
+
+/**
+ * Duplicate detection for uploads.
+ *
+ * A document's fingerprint is the SHA-256 hash of the uploaded file, which
+ * finds byte-identical copies, plus a MinHash signature over 3-word shingles
+ * of its chunk text, which also finds copies that were re-exported or lightly
+ * edited. Two signatures agree in about as many positions as the documents'
+ * shingle sets overlap (their Jaccard similarity).
+ */
+
+export interface DocumentFingerprint {
+  fileHash: string;
+  minHash: number[];
+}
+
+// What to do with an upload that matches a document already in the knowledge base
+export type DuplicatePolicy = 'reject' | 'warn' | 'version';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['reject', 'warn', 'version'];
+
+// A document an upload duplicates
+export interface DuplicateMatch {
+  documentId: string;
+  version: number;
+  fileName: string;
+  // Estimated share of text the two documents have in common, 0-1
+  similarity: number;
+  // The files are byte-identical
+  exact: boolean;
+}
+
+/**
+ * Read a duplicate policy from a request or environment value
+ * @param input The value to parse
+ * @returns The policy, or undefined if the value isn't one
+ */
+export function parseDuplicatePolicy(input: any): DuplicatePolicy | undefined {
+  const value = typeof input === 'string' ? input.trim().toLowerCase() : '';
+
+  return DUPLICATE_POLICIES.find(policy => policy === value);
+}
+
+// Set DUPLICATE_UPLOADS=warn to index duplicates anyway, or =version to store them as new versions
+export const DEFAULT_DUPLICATE_POLICY: DuplicatePolicy = parseDuplicatePolicy(process.env.DUPLICATE_UPLOADS) || 'reject';
+
+// Documents at least this similar are near-duplicates. The same manual extracted twice
+// scores about 0.8, different manuals with the same boilerplate below 0.15.
+const NEAR_DUPLICATE_SIMILARITY = Number(process.env.NEAR_DUPLICATE_SIMILARITY) || 0.6;
+const SIGNATURE_SIZE = 128;
+const SHINGLE_WORDS = 3;
+
+// Final mix of MurmurHash3: spreads the bits of a 32-bit value
+function mix32(value: number): number {
+  let hash = value;
+
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+
+  return hash >>> 0;
+}
+
+// 32-bit FNV-1a
+function hashString(text: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+}
+
+// One seed per signature position; fixed, since signatures are stored with documents
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) => mix32(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * SHA-256 hash of a file's bytes
+ * @param filePath Path to the file
+ */
+export async function hashFile(filePath: string): Promise<string> {
+  return createHash('sha256').update(await readFile(filePath)).digest('hex');
+}
+
+/**
+ * MinHash signature of a document's text. Case, punctuation and the way the
+ * text was split into chunks don't affect it.
+ * @param texts The document's chunks
+ * @returns The signature, or an empty one if the text has no words
+ */
+export function minHashSignature(texts: string[]): number[] {
+  const words = texts.join(' ').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  if (words.length === 0) {
+    return [];
+  }
+
+  const shingles = new Set<number>();
+
+  for (let i = 0; i <= Math.max(0, words.length - SHINGLE_WORDS); i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+  }
+
+  const signature: number[] = new Array(SIGNATURE_SIZE).fill(0xffffffff);
+
+  shingles.forEach(shingle => {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix32(shingle ^ SEEDS[i]);
+
+      if (value < signature[i]) {
+        signature[i] = value;
+      }
+    }
+  });
+
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of two documents from their signatures
+ * @returns 0-1; 0 when either signature is empty
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) {
+    return 0;
+  }
+
+  return a.filter((value, i) => value === b[i]).length / a.length;
+}
+
+// Documents stored before fingerprints were recorded get a signature from their chunks
+async function storedSignature(store: VectorStore, metadata: DocumentMetadata): Promise<number[]> {
+  if (metadata.minHash && metadata.minHash.length === SIGNATURE_SIZE) {
+    return metadata.minHash;
+  }
+
+  const document = await store.getDocument(metadata.id);
+
+  return document ? minHashSignature(document.chunks.map(chunk => chunk.content)) : [];
+}
+
+/**
+ * Documents in the store that an upload duplicates, compared by their active
+ * versions; best match first
+ * @param fingerprint The upload's fingerprint
+ * @param store Store to search
+ * @param excludeDocumentId A document the upload replaces, which it may match
+ */
+export async function findDuplicates(
+  fingerprint: DocumentFingerprint,
+  store: VectorStore,
+  excludeDocumentId?: string
+): Promise<DuplicateMatch[]> {
+  const documents = (await store.listDocuments()).filter(
+    metadata => isActiveVersion(metadata) && documentIdOf(metadata) !== excludeDocumentId
+  );
+  const matches: DuplicateMatch[] = [];
+
+  for (const metadata of documents) {
+    const exact = metadata.fileHash === fingerprint.fileHash;
+    const similarity = exact ? 1 : estimateSimilarity(fingerprint.minHash, await storedSignature(store, metadata));
+
+    if (exact || similarity >= NEAR_DUPLICATE_SIMILARITY) {
+      matches.push({
+        documentId: documentIdOf(metadata),
+        version: documentVersionOf(metadata),
+        fileName: metadata.fileName,
+        similarity,
+        exact,
+      });
+    }
+  }
+
+  if (matches.length > 0) {
+    logger.info(`Upload matches ${matches.length} documents: ${matches.map(match => `${match.fileName} (${Math.round(match.similarity * 100)}%)`).join(', ')}`);
+  }
+
+  return matches.sort((a, b) => Number(b.exact) - Number(a.exact) || b.similarity - a.similarity);
+}
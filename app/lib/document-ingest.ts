@@ -0,0 +1,268 @@
+import { extname } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+
+import createLogger from './logger';
+import { extractDocument, ExtractionReport, extractionReport } from './document-extractor';
+import { chunkDocument, DocumentChunk } from './chunker';
+import { EmbeddingProvider } from './embedding-provider';
+import { embedInBatches } from './embedding-batcher';
+import {
+  DEFAULT_DUPLICATE_POLICY,
+  DocumentFingerprint,
+  DuplicateMatch,
+  DuplicatePolicy,
+  findDuplicates,
+  hashFile,
+  minHashSignature,
+} from './document-fingerprint';
+import { deleteIngestCheckpoint, embeddedChunkCount, IngestCheckpoint, loadIngestCheckpoint, saveIngestCheckpoint } from './ingest-checkpoint';
+import { DocumentMetadata, documentIdOf, documentVersionOf, getVectorStore, KnowledgeChunk } from './vector-store';
+import { getBlobStorage, withLocalFile } from './blob-storage';
+
+// Create a logger for this module
+const logger = createLogger('PROCESS-DOC');
+
+// Steps of an upload, in order; each is reported once it has finished
+export type IngestStage = 'queued' | 'saved' | 'extracted' | 'chunked' | 'embedded' | 'indexed';
+
+export interface IngestProgressUpdate {
+  stage?: IngestStage;
+  embeddedChunks?: number;
+  totalChunks?: number;
+  // Outcome of text extraction, reported once it has run
+  extraction?: ExtractionReport;
+  // Documents the upload duplicates, reported before it is embedded
+  duplicates?: DuplicateMatch[];
+}
+
+export type IngestProgressListener = (update: IngestProgressUpdate) => void;
+
+export interface ProcessDocumentOptions {
+  // ID of a document this upload replaces; it is stored as that document's next version
+  replaces?: string;
+  // What to do if the upload duplicates another document
+  onDuplicate?: DuplicatePolicy;
+}
+
+function fileNameOf(fileKey: string): string {
+  return fileKey.split('/').pop() || 'unknown';
+}
+
+/**
+ * Extract, chunk and embed an upload saved to the blob storage and store it in
+ * the vector store.
+ *
+ * Embedding progress is checkpointed under `uploadId`, so calling this again
+ * for the same upload after a failure only embeds the missing chunks.
+ *
+ * A replacement becomes the active version of the replaced document only once
+ * it is fully stored; until then searches keep using the previous version.
+ *
+ * Uploads are checked for duplicates before they are embedded. Depending on
+ * `onDuplicate`, a duplicate is rejected, indexed with a warning, or stored as
+ * a new version of the document it matches.
+ */
+export async function processDocument(
+  fileKey: string,
+  category: string,
+  embeddings: EmbeddingProvider,
+  uploadId: string,
+  onProgress: IngestProgressListener = () => undefined,
+  { replaces: replacesOption, onDuplicate = DEFAULT_DUPLICATE_POLICY }: ProcessDocumentOptions = {}
+): Promise<DocumentMetadata> {
+  let replaces = replacesOption;
+  const fileExtension = extname(fileKey).toLowerCase();
+  const store = getVectorStore();
+
+  logger.info(`Processing ${fileKey} (category: ${category})${replaces ? `, replacing ${replaces}` : ''}`);
+
+  if (replaces) {
+    const replaced = await store.listVersions(replaces);
+
+    if (replaced.length === 0) {
+      throw new Error(`Document ${replaces} does not exist`);
+    }
+
+    // Callers may name the document by any of its versions
+    replaces = documentIdOf(replaced[0]);
+  }
+
+  // Parsers read the upload from disk, so one in remote storage is downloaded for them
+  const { extraction, fileHash } = await withLocalFile(getBlobStorage(), fileKey, async filePath => ({
+    extraction: await extractDocument(filePath),
+    fileHash: await hashFile(filePath),
+  }));
+  const report = extractionReport(extraction);
+
+  onProgress({ extraction: report });
+
+  // Failed extractions never reach the knowledge base
+  if (extraction.status === 'failed') {
+    throw new Error(extraction.message);
+  }
+
+  const { content, pages, ocrPages = [] } = extraction;
+
+  if (extraction.status === 'partial') {
+    logger.warn(`Partial extraction of ${fileKey}: ${extraction.warnings.map(warning => warning.message).join('; ')}`);
+  }
+
+  logger.info(`Extracted ${content.length} characters${pages ? ` from ${pages.length} pages` : ''}${ocrPages.length > 0 ? ` (${ocrPages.length} by OCR)` : ''}`);
+  onProgress({ stage: 'extracted' });
+
+  // Chunks follow the document's headings and keep numbered steps and tables together
+  const documentChunks = chunkDocument(pages || content);
+  const chunks = documentChunks.map(chunk => chunk.content);
+  const namespace = `${category}_${uuidv4()}`;
+
+  logger.info(`Split content into ${chunks.length} chunks`);
+
+  const fingerprint: DocumentFingerprint = { fileHash, minHash: minHashSignature(chunks) };
+  const duplicates = await findDuplicates(fingerprint, store, replaces);
+
+  if (duplicates.length > 0) {
+    const [match] = duplicates;
+    const description = match.exact
+      ? `identical to ${match.fileName}`
+      : `${Math.round(match.similarity * 100)}% the same as ${match.fileName}`;
+
+    onProgress({ duplicates });
+
+    if (onDuplicate === 'reject') {
+      throw new Error(`This file is ${description} (document ${match.documentId}). Upload it as a new version of that document instead.`);
+    }
+
+    if (onDuplicate === 'version' && !replaces) {
+      logger.info(`Storing ${fileKey} as a new version of ${match.documentId}: it is ${description}`);
+      replaces = match.documentId;
+    } else {
+      logger.warn(`Indexing ${fileKey} although it is ${description}`);
+    }
+  }
+
+  onProgress({ stage: 'chunked', embeddedChunks: 0, totalChunks: chunks.length });
+
+  // Reuse the vectors of an earlier attempt at this upload if it split into the same chunks
+  const previous = await loadIngestCheckpoint(uploadId);
+  const resumable = previous?.model === embeddings.model &&
+    previous.chunks.length === chunks.length &&
+    previous.chunks.every((chunk, index) => chunk === chunks[index]);
+  const now = new Date().toISOString();
+  const checkpoint: IngestCheckpoint = {
+    uploadId,
+    fileKey,
+    category,
+    model: embeddings.model,
+    chunks,
+    embeddings: chunks.map((_, index) => (resumable ? previous.embeddings[index] : null) || null),
+    createdAt: resumable ? previous.createdAt : now,
+    updatedAt: now,
+  };
+
+  if (resumable) {
+    logger.info(`Resuming upload ${uploadId}: ${embeddedChunkCount(checkpoint)}/${chunks.length} chunks already embedded`);
+    onProgress({ embeddedChunks: embeddedChunkCount(checkpoint) });
+  }
+
+  await saveIngestCheckpoint(checkpoint);
+
+  // Embed the chunks in batched requests with a bounded number in flight, saving progress after each batch
+  let saving = Promise.resolve();
+  const vectors = await embedInBatches(chunks, embeddings, {
+    existing: checkpoint.embeddings,
+    onBatch: (indexes, batch) => {
+      indexes.forEach((index, position) => {
+        checkpoint.embeddings[index] = batch[position];
+      });
+      onProgress({ embeddedChunks: embeddedChunkCount(checkpoint) });
+      saving = saving.then(() => saveIngestCheckpoint(checkpoint));
+
+      return saving;
+    },
+  });
+
+  onProgress({ stage: 'embedded' });
+
+  // Chunks that include text of a scanned page
+  const fromOcr = ({ pageStart, pageEnd = pageStart }: DocumentChunk) =>
+    pageStart !== undefined && pageEnd !== undefined && ocrPages.some(page => page >= pageStart && page <= pageEnd);
+  const processedChunks: KnowledgeChunk[] = chunks.map((chunk, index) => ({
+    id: `chunk_${index}`,
+    content: chunk,
+    embedding: vectors[index],
+    metadata: {
+      source: fileNameOf(fileKey),
+      chunk: index,
+      category,
+      fileType: fileExtension.replace('.', ''),
+      ...(documentChunks[index].headingPath.length > 0 && { headingPath: documentChunks[index].headingPath.join(' > ') }),
+      ...(documentChunks[index].pageStart !== undefined && {
+        pageStart: documentChunks[index].pageStart,
+        pageEnd: documentChunks[index].pageEnd
+      }),
+      ...(fromOcr(documentChunks[index]) && { ocr: true })
+    }
+  }));
+
+  if (processedChunks.length === 0) {
+    throw new Error('Failed to process any chunks from the document');
+  }
+
+  const id = uuidv4();
+  // Versions of the replaced document, re-read in case one was added or deleted while this upload was processed
+  const versions = replaces ? await store.listVersions(replaces) : [];
+
+  if (replaces && versions.length === 0) {
+    throw new Error(`Document ${replaces} was deleted while its replacement was processed`);
+  }
+
+  const latest = versions[versions.length - 1];
+  // Duplicates of other documents than the one this upload became a version of
+  const otherDuplicates = duplicates.filter(match => match.documentId !== replaces);
+  const documentId = latest ? documentIdOf(latest) : id;
+  const version = latest ? documentVersionOf(latest) + 1 : 1;
+  let documentMetadata: DocumentMetadata = {
+    id,
+    fileName: fileNameOf(fileKey),
+    namespace,
+    chunks: processedChunks.length,
+    createdAt: new Date().toISOString(),
+    fileKey,
+    fileType: fileExtension.replace('.', ''),
+    category,
+    ...(pages && { pageCount: pages.length }),
+    ...(ocrPages.length > 0 && { ocrPages }),
+    extraction: report,
+    // Recorded so vectors from different models are never compared
+    embeddingModel: embeddings.model,
+    embeddingDimensions: processedChunks[0].embedding.length,
+    documentId,
+    version,
+    fileHash: fingerprint.fileHash,
+    minHash: fingerprint.minHash,
+    ...(otherDuplicates.length > 0 && { duplicates: otherDuplicates }),
+    // A replacement is stored inactive and activated once it is complete
+    active: !latest
+  };
+
+  try {
+    await store.upsert({
+      metadata: documentMetadata,
+      chunks: processedChunks,
+    });
+
+    if (latest) {
+      documentMetadata = (await store.activateVersion(documentId, version)) || documentMetadata;
+    }
+  } catch (writeError) {
+    throw new Error(`Failed to save document: ${writeError instanceof Error ? writeError.message : String(writeError)}`);
+  }
+
+  await deleteIngestCheckpoint(uploadId);
+  onProgress({ stage: 'indexed' });
+  logger.info(`Document processing completed successfully: ${documentMetadata.id}`);
+
+  return documentMetadata;
+}
+
+export default processDocument;
@@ -0,0 +1,179 @@
+import { readFile } from 'fs/promises';
+
+import { decodeEntities } from './html-utils';
+import { readZipEntries } from './zip-utils';
+
+/**
+ * Extract text from Word (.docx) files.
+ *
+ * A .docx file is a zip archive; the body is in `word/document.xml` and list
+ * numbering formats are in `word/numbering.xml`. Heading paragraphs become
+ * Markdown `#` lines, numbered list items keep their numbers, bullets become
+ * `-` lines and table rows become `| cell | cell |` lines, so the chunker sees
+ * the same structure as in the document.
+ */
+
+function attribute(xml: string, element: string, name: string): string | undefined {
+  const match = xml.match(new RegExp(`<${element}\\b[^>]*\\s${name}="([^"]*)"`));
+
+  return match ? match[1] : undefined;
+}
+
+// Numbering format ("decimal", "bullet", ...) by numId and list level
+function readNumberingFormats(numberingXml: string): Map<string, string> {
+  const abstractFormats = new Map<string, string>();
+  const formats = new Map<string, string>();
+
+  for (const abstract of numberingXml.match(/<w:abstractNum\b[\s\S]*?<\/w:abstractNum>/g) || []) {
+    const abstractId = attribute(abstract, 'w:abstractNum', 'w:abstractNumId');
+
+    for (const level of abstract.match(/<w:lvl\b[\s\S]*?<\/w:lvl>/g) || []) {
+      const format = attribute(level, 'w:numFmt', 'w:val');
+
+      abstractFormats.set(`${abstractId}:${attribute(level, 'w:lvl', 'w:ilvl')}`, format || 'bullet');
+    }
+  }
+
+  for (const num of numberingXml.match(/<w:num\b[\s\S]*?<\/w:num>/g) || []) {
+    const numId = attribute(num, 'w:num', 'w:numId');
+    const abstractId = attribute(num, 'w:abstractNumId', 'w:val');
+
+    abstractFormats.forEach((format, key) => {
+      const [keyAbstractId, level] = key.split(':');
+
+      if (keyAbstractId === abstractId) {
+        formats.set(`${numId}:${level}`, format);
+      }
+    });
+  }
+
+  return formats;
+}
+
+function paragraphText(paragraphXml: string): string {
+  const parts = paragraphXml.match(/<w:t(?:\s[^>]*)?>[^<]*<\/w:t>|<w:tab\/>|<w:br\/>|<w:cr\/>/g) || [];
+
+  return parts
+    .map(part => {
+      if (part === '<w:tab/>') {
+        return '\t';
+      }
+
+      if (part === '<w:br/>' || part === '<w:cr/>') {
+        return '\n';
+      }
+
+      return decodeEntities(part.replace(/<[^>]+>/g, ''));
+    })
+    .join('')
+    .trim();
+}
+
+// "Heading2" and "Title" styles, or an explicit outline level, make a paragraph a heading
+function headingLevel(paragraphXml: string): number {
+  const style = attribute(paragraphXml, 'w:pStyle', 'w:val') || '';
+  const styleLevel = style.match(/^heading\s*(\d)$/i);
+
+  if (styleLevel) {
+    return Number(styleLevel[1]);
+  }
+
+  if (/^title$/i.test(style)) {
+    return 1;
+  }
+
+  const outlineLevel = attribute(paragraphXml, 'w:outlineLvl', 'w:val');
+
+  return outlineLevel !== undefined && Number(outlineLevel) < 9 ? Number(outlineLevel) + 1 : 0;
+}
+
+function tableText(tableXml: string): string {
+  return (tableXml.match(/<w:tr\b[\s\S]*?<\/w:tr>/g) || [])
+    .map(row =>
+      (row.match(/<w:tc\b[\s\S]*?<\/w:tc>/g) || []).map(cell =>
+        (cell.match(/<w:p\b[\s\S]*?<\/w:p>/g) || [])
+          .map(paragraphText)
+          .join(' ')
+          .replace(/\s+/g, ' ')
+          .replace(/\|/g, '/')
+          .trim()
+      )
+    )
+    .filter(cells => cells.some(Boolean))
+    .map(cells => `| ${cells.join(' | ')} |`)
+    .join('\n');
+}
+
+/**
+ * Convert the XML of a Word document body into structured text
+ * @param documentXml Content of `word/document.xml`
+ * @param numberingXml Content of `word/numbering.xml`, if the document has lists
+ */
+export function docxXmlToStructuredText(documentXml: string, numberingXml = ''): string {
+  const numberingFormats = readNumberingFormats(numberingXml);
+  // Next number per list and level
+  const counters = new Map<string, number>();
+  const blocks: string[] = [];
+
+  for (const block of documentXml.match(/<w:tbl\b[\s\S]*?<\/w:tbl>|<w:p\b[^>]*\/>|<w:p\b[\s\S]*?<\/w:p>/g) || []) {
+    if (block.startsWith('<w:tbl')) {
+      blocks.push(tableText(block));
+      continue;
+    }
+
+    const text = paragraphText(block);
+
+    if (!text) {
+      continue;
+    }
+
+    const level = headingLevel(block);
+    const numId = attribute(block, 'w:numId', 'w:val');
+
+    if (level > 0) {
+      blocks.push(`${'#'.repeat(Math.min(level, 6))} ${text.replace(/\s+/g, ' ')}`);
+    } else if (numId && numId !== '0') {
+      const listLevel = Number(attribute(block, 'w:ilvl', 'w:val') || 0);
+      const key = `${numId}:${listLevel}`;
+      const format = numberingFormats.get(key) || 'bullet';
+      const indent = '  '.repeat(listLevel);
+
+      // A new item restarts the numbering of the levels nested below it
+      counters.forEach((_count, counterKey) => {
+        const [counterList, counterLevel] = counterKey.split(':');
+
+        if (counterList === numId && Number(counterLevel) > listLevel) {
+          counters.delete(counterKey);
+        }
+      });
+
+      if (format === 'bullet' || format === 'none') {
+        blocks.push(`${indent}- ${text}`);
+      } else {
+        const number = (counters.get(key) || 0) + 1;
+
+        counters.set(key, number);
+        blocks.push(`${indent}${number}. ${text}`);
+      }
+    } else {
+      blocks.push(text);
+    }
+  }
+
+  return blocks.join('\n\n').trim();
+}
+
+/**
+ * Extract structured text from a .docx file
+ * @param filePath Path to the .docx file
+ */
+export async function extractTextFromDOCX(filePath: string): Promise<string> {
+  const entries = readZipEntries(await readFile(filePath), name => name === 'word/document.xml' || name === 'word/numbering.xml');
+  const documentXml = entries.get('word/document.xml')?.toString('utf-8');
+
+  if (!documentXml) {
+    throw new Error('Not a valid .docx file (word/document.xml is missing)');
+  }
+
+  return docxXmlToStructuredText(documentXml, entries.get('word/numbering.xml')?.toString('utf-8'));
+}
@@ -0,0 +1,122 @@
+import createLogger from './logger';
+import { EmbeddingProvider } from './embedding-provider';
+
+// Create a logger for this module
+const logger = createLogger('EMBEDDING-BATCHER');
+
+export interface BatchEmbeddingOptions {
+  // Texts sent per embeddings request
+  batchSize?: number;
+  // Requests in flight at once
+  concurrency?: number;
+  // Vectors already computed (e.g. restored from a checkpoint); only the gaps are embedded
+  existing?: Array<number[] | null | undefined>;
+  // Called after each batch with the positions of its texts, e.g. to save progress
+  onBatch?: (indexes: number[], embeddings: number[][]) => void | Promise<void>;
+}
+
+export const DEFAULT_EMBEDDING_BATCH_SIZE = Number(process.env.EMBEDDING_BATCH_SIZE) || 64;
+
+export const DEFAULT_EMBEDDING_CONCURRENCY = Number(process.env.EMBEDDING_CONCURRENCY) || 3;
+
+/**
+ * Run tasks with at most `limit` in flight. After the first failure no new
+ * tasks are started; the ones already running finish (so their results can
+ * be saved) and then the first error is thrown.
+ */
+export async function runWithConcurrency<T>(tasks: Array<() => Promise<T>>, limit: number): Promise<T[]> {
+  const results: T[] = new Array(tasks.length);
+  let next = 0;
+  let failure: { error: unknown } | null = null;
+
+  const worker = async () => {
+    while (!failure && next < tasks.length) {
+      const index = next++;
+
+      try {
+        results[index] = await tasks[index]();
+      } catch (error) {
+        failure = failure || { error };
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, tasks.length)) }, worker));
+
+  if (failure) {
+    throw (failure as { error: unknown }).error;
+  }
+
+  return results;
+}
+
+// Group the positions that still need a vector into runs of at most batchSize
+function pendingBatches(count: number, existing: BatchEmbeddingOptions['existing'], batchSize: number): number[][] {
+  const batches: number[][] = [];
+  let current: number[] = [];
+
+  for (let index = 0; index < count; index++) {
+    if (existing?.[index]) {
+      continue;
+    }
+
+    current.push(index);
+
+    if (current.length >= batchSize) {
+      batches.push(current);
+      current = [];
+    }
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+
+  return batches;
+}
+
+/**
+ * Embed many texts with batched requests and a bounded concurrency pool. Vectors
+ * in `existing` are reused, so a failed run can be resumed from saved progress.
+ */
+export async function embedInBatches(
+  texts: string[],
+  provider: EmbeddingProvider,
+  options: BatchEmbeddingOptions = {}
+): Promise<number[][]> {
+  const {
+    batchSize = DEFAULT_EMBEDDING_BATCH_SIZE,
+    concurrency = DEFAULT_EMBEDDING_CONCURRENCY,
+    existing,
+    onBatch,
+  } = options;
+  const embeddings = texts.map((_, index) => existing?.[index] || null);
+  const batches = pendingBatches(texts.length, existing, Math.max(1, batchSize));
+  const reused = texts.length - batches.reduce((sum, batch) => sum + batch.length, 0);
+
+  logger.info(
+    `Embedding ${texts.length - reused} texts in ${batches.length} batches (concurrency ${concurrency})` +
+    (reused > 0 ? `, ${reused} restored from saved progress` : '')
+  );
+
+  await runWithConcurrency(
+    batches.map(batch => async () => {
+      const vectors = await provider.embedBatch(batch.map(index => texts[index]));
+
+      if (vectors.length !== batch.length) {
+        throw new Error(`Embedding provider returned ${vectors.length} vectors for ${batch.length} texts`);
+      }
+
+      batch.forEach((index, position) => {
+        embeddings[index] = vectors[position];
+      });
+
+      await onBatch?.(batch, vectors);
+    }),
+    concurrency
+  );
+
+  return embeddings as number[][];
+}
+
+export default embedInBatches;
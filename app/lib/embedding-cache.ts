@@ -0,0 +1,449 @@
+import { createHash } from 'crypto';
+import { utimes } from 'fs/promises';
+
+import createLogger from './logger';
+import { BlobInfo, BlobStorage, getBlobStorage, LocalBlobStorage } from './blob-storage';
+import { runWithConcurrency } from './embedding-batcher';
+import { EmbeddingProvider, EmbeddingProviderName, getEmbeddingProvider } from './embedding-provider';
+
+// Create a logger for this module
+const logger = createLogger('EMBEDDING-CACHE');
+
+export interface EmbeddingCacheStats {
+  hits: number;
+  misses: number;
+  // Share of lookups served from the cache (0 when nothing was looked up)
+  hitRate: number;
+}
+
+// Debug info reported by API responses: this request's lookups and the cache as a whole
+export interface EmbeddingCacheReport extends EmbeddingCacheStats {
+  overall: EmbeddingCacheStats & { entries: number; bytes: number };
+}
+
+// Stored shape of one cached vector
+interface CacheEntryFile {
+  model: string;
+  dimensions: number;
+  // Float32 values, base64 encoded (a quarter of the size of a JSON number array)
+  vector: string;
+}
+
+// Total size of the cached vectors before the least recently used are evicted (0 disables the cache)
+const DEFAULT_MAX_BYTES = (Number(process.env.EMBEDDING_CACHE_MAX_MB ?? 100) || 0) * 1024 * 1024;
+
+// Vectors also kept in memory, most recently used last
+const MEMORY_ENTRIES = 500;
+
+// How long the listing of stored vectors is trusted before it is read again to
+// pick up vectors other server instances stored
+const LISTING_MAX_AGE_MS = (Number(process.env.EMBEDDING_CACHE_REFRESH_SECONDS) || 60) * 1000;
+
+// Stored vectors read or written at once
+const STORAGE_CONCURRENCY = 8;
+
+// Folder (inside the storage root) holding one file per cached vector
+export const EMBEDDING_CACHE_DIR = '.cache/embeddings';
+
+function hitRate(hits: number, misses: number): number {
+  return hits + misses === 0 ? 0 : Number((hits / (hits + misses)).toFixed(3));
+}
+
+// Same model and same text always give the same vector
+export function embeddingCacheKey(model: string, text: string): string {
+  return createHash('sha256').update(`${model}\n${text}`).digest('hex');
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString('base64');
+}
+
+function decodeVector(encoded: string): number[] {
+  const buffer = Buffer.from(encoded, 'base64');
+
+  return Array.from(new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4));
+}
+
+/**
+ * LRU cache of embedding vectors keyed by a hash of model and text, kept in the
+ * blob storage (see blob-storage.ts) so every server instance shares it.
+ *
+ * Lookups and writes take a whole batch of texts. Recently used vectors are
+ * answered from memory, and only vectors in the storage listing are read, so
+ * texts that were never cached cost no storage requests; the listing is read
+ * again at most every EMBEDDING_CACHE_REFRESH_SECONDS. Misses are written
+ * together and the cache is trimmed once per batch.
+ *
+ * Recency is tracked by modification time. Local files are touched on every
+ * hit, so eviction order survives restarts; remote blobs can't be touched
+ * without rewriting them, so there only this process's hits count. If storage
+ * isn't writable the cache keeps working from memory only.
+ */
+export class EmbeddingCache {
+  // Size of every stored vector, least recently used first
+  private files = new Map<string, number>();
+  private memory = new Map<string, number[]>();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private loaded: Promise<void> | null = null;
+  private loadedLocation: string | null = null;
+  private listedAt = 0;
+  private listing: Promise<void> | null = null;
+  private storage: BlobStorage;
+
+  constructor(
+    readonly maxBytes: number = DEFAULT_MAX_BYTES,
+    storage?: BlobStorage
+  ) {
+    this.storage = storage || getBlobStorage();
+  }
+
+  get enabled(): boolean {
+    return this.maxBytes > 0;
+  }
+
+  private entryKey(key: string): string {
+    return `${EMBEDDING_CACHE_DIR}/${key}.json`;
+  }
+
+  // Index the stored vectors, oldest first
+  private async load(): Promise<void> {
+    if (this.loaded && this.loadedLocation === this.storage.location) {
+      return this.loaded;
+    }
+
+    this.loadedLocation = this.storage.location;
+    this.loaded = (async () => {
+      this.files.clear();
+      this.memory.clear();
+      this.bytes = 0;
+
+      try {
+        for (const blob of await this.list()) {
+          this.files.set(this.blobKey(blob), blob.size);
+          this.bytes += blob.size;
+        }
+
+        logger.info(`Loaded ${this.files.size} cached embeddings (${Math.round(this.bytes / 1024)} KB)`);
+      } catch (error) {
+        logger.warn(`Could not list cached embeddings in ${this.storage.location}:`, error);
+      }
+    })();
+
+    return this.loaded;
+  }
+
+  private blobKey(blob: BlobInfo): string {
+    return blob.key.slice(EMBEDDING_CACHE_DIR.length + 1, -5);
+  }
+
+  // Stored vectors, oldest first
+  private async list(): Promise<BlobInfo[]> {
+    const blobs = (await this.storage.list(`${EMBEDDING_CACHE_DIR}/`)).filter(blob => blob.key.endsWith('.json'));
+
+    this.listedAt = Date.now();
+
+    return blobs.sort((a, b) => a.lastModified.getTime() - b.lastModified.getTime());
+  }
+
+  // Pick up vectors stored (or evicted) by other instances; concurrent batches share one listing
+  private async relist(): Promise<void> {
+    if (Date.now() - this.listedAt < LISTING_MAX_AGE_MS) {
+      return;
+    }
+
+    if (!this.listing) {
+      this.listing = (async () => {
+        try {
+          const blobs = await this.list();
+          const listed = new Set(blobs.map(blob => this.blobKey(blob)));
+
+          for (const [key, size] of Array.from(this.files.entries())) {
+            if (!listed.has(key)) {
+              this.files.delete(key);
+              this.bytes -= size;
+            }
+          }
+
+          for (const blob of blobs) {
+            const key = this.blobKey(blob);
+
+            if (!this.files.has(key)) {
+              this.files.set(key, blob.size);
+              this.bytes += blob.size;
+            }
+          }
+        } catch (error) {
+          this.listedAt = Date.now();
+          logger.warn(`Could not list cached embeddings in ${this.storage.location}:`, error);
+        } finally {
+          this.listing = null;
+        }
+      })();
+    }
+
+    return this.listing;
+  }
+
+  // Read one stored vector, dropping it from the index if it is gone or unreadable
+  private async read(model: string, key: string): Promise<number[] | null> {
+    try {
+      const content = await this.storage.get(this.entryKey(key));
+
+      if (content) {
+        const entry = JSON.parse(content.toString('utf-8')) as CacheEntryFile;
+
+        return entry.model === model ? decodeVector(entry.vector) : null;
+      }
+    } catch {
+      // Treated as a miss below
+    }
+
+    this.bytes -= this.files.get(key) || 0;
+    this.files.delete(key);
+
+    return null;
+  }
+
+  private remember(key: string, vector: number[]) {
+    this.memory.delete(key);
+    this.memory.set(key, vector);
+
+    if (this.memory.size > MEMORY_ENTRIES) {
+      this.memory.delete(this.memory.keys().next().value as string);
+    }
+  }
+
+  // Mark a vector as most recently used
+  private touch(key: string) {
+    const size = this.files.get(key);
+
+    if (size !== undefined) {
+      this.files.delete(key);
+      this.files.set(key, size);
+
+      if (this.storage instanceof LocalBlobStorage) {
+        const now = new Date();
+
+        utimes(this.storage.pathOf(this.entryKey(key)), now, now).catch(() => undefined);
+      }
+    }
+  }
+
+  // Cached vectors for a batch of texts, null where a text isn't cached
+  async getMany(model: string, texts: string[]): Promise<Array<number[] | null>> {
+    if (!this.enabled) {
+      return texts.map(() => null);
+    }
+
+    await this.load();
+
+    const keys = texts.map(text => embeddingCacheKey(model, text));
+    const found = new Map<string, number[]>();
+
+    for (const key of keys) {
+      const vector = this.memory.get(key);
+
+      if (vector) {
+        found.set(key, vector);
+      }
+    }
+
+    if (keys.some(key => !found.has(key) && !this.files.has(key))) {
+      await this.relist();
+    }
+
+    const stored = Array.from(new Set(keys.filter(key => !found.has(key) && this.files.has(key))));
+
+    await runWithConcurrency(
+      stored.map(key => async () => {
+        const vector = await this.read(model, key);
+
+        if (vector) {
+          found.set(key, vector);
+        }
+      }),
+      STORAGE_CONCURRENCY
+    );
+
+    return keys.map(key => {
+      const vector = found.get(key);
+
+      if (!vector) {
+        this.misses++;
+
+        return null;
+      }
+
+      this.hits++;
+      this.remember(key, vector);
+      this.touch(key);
+
+      return vector;
+    });
+  }
+
+  // Store freshly computed vectors, then evict once for the whole batch
+  async setMany(model: string, entries: Array<{ text: string; vector: number[] }>): Promise<void> {
+    if (!this.enabled || entries.length === 0) {
+      return;
+    }
+
+    await this.load();
+
+    let failed = 0;
+
+    await runWithConcurrency(
+      entries.map(({ text, vector }) => async () => {
+        const key = embeddingCacheKey(model, text);
+        const content = JSON.stringify({ model, dimensions: vector.length, vector: encodeVector(vector) } as CacheEntryFile);
+
+        this.remember(key, vector);
+
+        try {
+          await this.storage.put(this.entryKey(key), content);
+
+          this.bytes += content.length - (this.files.get(key) || 0);
+          this.files.delete(key);
+          this.files.set(key, content.length);
+        } catch (error) {
+          if (failed++ === 0) {
+            logger.warn(`Could not persist cached embedding ${key}:`, error);
+          }
+        }
+      }),
+      STORAGE_CONCURRENCY
+    );
+
+    if (failed > 1) {
+      logger.warn(`Could not persist ${failed} of ${entries.length} cached embeddings`);
+    }
+
+    await this.evict();
+  }
+
+  // Delete least recently used vectors until the cache fits its size limit
+  private async evict(): Promise<void> {
+    let evicted = 0;
+
+    for (const [key, size] of Array.from(this.files.entries())) {
+      if (this.bytes <= this.maxBytes) {
+        break;
+      }
+
+      // Already evicted by a concurrent write while a slow delete was pending
+      if (!this.files.has(key)) {
+        continue;
+      }
+
+      this.files.delete(key);
+      this.memory.delete(key);
+      this.bytes -= size;
+      evicted++;
+      await this.storage.delete(this.entryKey(key)).catch(() => undefined);
+    }
+
+    if (evicted > 0) {
+      logger.info(`Evicted ${evicted} cached embeddings, ${Math.round(this.bytes / 1024)} KB left`);
+    }
+  }
+
+  stats(): EmbeddingCacheStats & { entries: number; bytes: number } {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: hitRate(this.hits, this.misses),
+      entries: this.files.size,
+      bytes: this.bytes,
+    };
+  }
+}
+
+/**
+ * Embedding provider that answers from the cache where it can and only sends
+ * the misses to the wrapped provider. Create one per request so its counters
+ * describe that request.
+ */
+export class CachedEmbeddingProvider implements EmbeddingProvider {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private provider: EmbeddingProvider,
+    private cache: EmbeddingCache = getEmbeddingCache()
+  ) {}
+
+  get name(): EmbeddingProviderName {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get dimensions(): number {
+    return this.provider.dimensions;
+  }
+
+  get minSimilarity(): number {
+    return this.provider.minSimilarity;
+  }
+
+  get minKeywordSimilarity(): number {
+    return this.provider.minKeywordSimilarity;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    const embeddings = await this.cache.getMany(this.model, texts);
+    // Texts repeated within the batch are only embedded once
+    const missing = Array.from(new Set(texts.filter((_, index) => !embeddings[index])));
+
+    this.hits += texts.length - missing.length;
+    this.misses += missing.length;
+
+    if (missing.length > 0) {
+      const fresh = await this.provider.embedBatch(missing);
+      const byText = new Map(missing.map((text, position) => [text, fresh[position]]));
+
+      await this.cache.setMany(this.model, missing.map(text => ({ text, vector: byText.get(text) as number[] })));
+
+      return texts.map((text, index) => embeddings[index] || (byText.get(text) as number[]));
+    }
+
+    return embeddings as number[][];
+  }
+
+  cacheStats(): EmbeddingCacheReport {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: hitRate(this.hits, this.misses),
+      overall: this.cache.stats(),
+    };
+  }
+}
+
+// Shared instance so the in-memory layer stays warm across requests
+let sharedCache: EmbeddingCache | null = null;
+
+export function getEmbeddingCache(): EmbeddingCache {
+  if (!sharedCache) {
+    sharedCache = new EmbeddingCache();
+  }
+
+  return sharedCache;
+}
+
+// The configured provider behind the shared cache, with counters for one request
+export function createCachedEmbeddingProvider(provider: EmbeddingProvider = getEmbeddingProvider()): CachedEmbeddingProvider {
+  return new CachedEmbeddingProvider(provider);
+}
+
+export default getEmbeddingCache;
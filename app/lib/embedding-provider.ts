@@ -0,0 +1,190 @@
+import OpenAI from 'openai';
+
+import createLogger from './logger';
+import { DEFAULT_MIN_KEYWORD_SIMILARITY, DEFAULT_MIN_SIMILARITY } from './answer-gating';
+import { withRateLimitRetry } from './retry';
+
+// Create a logger for this module
+const logger = createLogger('EMBEDDINGS');
+
+/**
+ * Turns text into embedding vectors. Documents and queries must be embedded by
+ * the same provider and model for their similarities to mean anything.
+ */
+export interface EmbeddingProvider {
+  readonly name: EmbeddingProviderName;
+  readonly model: string;
+  readonly dimensions: number;
+  // Similarity cutoff suited to this model's score distribution
+  readonly minSimilarity: number;
+  // Similarity a keyword match below that cutoff still needs to be used
+  readonly minKeywordSimilarity: number;
+  embed(text: string): Promise<number[]>;
+  embedBatch(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderName = 'openai' | 'local';
+
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-ada-002';
+
+const OPENAI_MODEL_DIMENSIONS: Record<string, number> = {
+  'text-embedding-ada-002': 1536,
+  'text-embedding-3-small': 1536,
+  'text-embedding-3-large': 3072,
+};
+
+export const LOCAL_EMBEDDING_MODEL = 'local-hashed-ngram-v1';
+
+export const LOCAL_EMBEDDING_DIMENSIONS = 384;
+
+// Hashed n-gram vectors share fewer features than neural ones, so related text scores lower
+const LOCAL_MIN_SIMILARITY = Number(process.env.KNOWLEDGE_MIN_SIMILARITY) || 0.3;
+// Unrelated text scores about 0 with hashed n-grams
+const LOCAL_MIN_KEYWORD_SIMILARITY = Number(process.env.KNOWLEDGE_MIN_KEYWORD_SIMILARITY) || 0.1;
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  readonly dimensions: number;
+  readonly minSimilarity = DEFAULT_MIN_SIMILARITY;
+  readonly minKeywordSimilarity = DEFAULT_MIN_KEYWORD_SIMILARITY;
+
+  constructor(
+    private client: OpenAI,
+    readonly model: string = DEFAULT_OPENAI_EMBEDDING_MODEL
+  ) {
+    this.dimensions = OPENAI_MODEL_DIMENSIONS[model] || 1536;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const [embedding] = await this.embedBatch([text]);
+
+    return embedding;
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) {
+      return [];
+    }
+
+    // Retries (honoring Retry-After on rate limits) are handled here rather than by the SDK
+    const response = await withRateLimitRetry(
+      () => this.client.embeddings.create({ model: this.model, input: texts }, { maxRetries: 0 }),
+      { label: `Embedding ${texts.length} texts` }
+    );
+
+    // The API may return items out of order; index ties each back to its input
+    return [...response.data].sort((a, b) => a.index - b.index).map(item => item.embedding);
+  }
+}
+
+// 32-bit FNV-1a hash of a feature string
+function hashFeature(feature: string): number {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < feature.length; i++) {
+    hash ^= feature.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash;
+}
+
+/**
+ * Deterministic CPU embedding from hashed words, word bigrams and character
+ * trigrams (the "hashing trick"). Needs no network or model download, so the
+ * whole pipeline can run offline and in tests; quality is below a neural model.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  readonly model = LOCAL_EMBEDDING_MODEL;
+  readonly minSimilarity = LOCAL_MIN_SIMILARITY;
+  readonly minKeywordSimilarity = LOCAL_MIN_KEYWORD_SIMILARITY;
+
+  constructor(readonly dimensions: number = LOCAL_EMBEDDING_DIMENSIONS) {}
+
+  private addFeature(vector: number[], feature: string, weight: number) {
+    const hash = hashFeature(feature);
+    // The top bit picks the sign so colliding features tend to cancel out
+    const sign = hash >>> 31 ? -1 : 1;
+
+    vector[hash % this.dimensions] += sign * weight;
+  }
+
+  embedSync(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = (text || '').toLowerCase().match(/[a-z0-9]+/g) || [];
+
+    for (let i = 0; i < words.length; i++) {
+      this.addFeature(vector, `w:${words[i]}`, 1);
+
+      if (i > 0) {
+        this.addFeature(vector, `b:${words[i - 1]} ${words[i]}`, 0.5);
+      }
+
+      const padded = `#${words[i]}#`;
+
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        this.addFeature(vector, `c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+    return norm === 0 ? vector : vector.map(value => value / norm);
+  }
+
+  async embed(text: string): Promise<number[]> {
+    return this.embedSync(text);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedSync(text));
+  }
+}
+
+/**
+ * Validate a provider name from configuration.
+ * Returns undefined for missing or unknown values so the default applies.
+ */
+export function parseEmbeddingProviderName(input: any): EmbeddingProviderName | undefined {
+  return input === 'openai' || input === 'local' ? input : undefined;
+}
+
+export interface EmbeddingProviderOptions {
+  client?: OpenAI;
+  apiKey?: string;
+  model?: string;
+}
+
+/**
+ * Create a provider by name. Without a name, EMBEDDING_PROVIDER decides, then
+ * OpenAI when an API key is available, otherwise the local model.
+ */
+export function createEmbeddingProvider(
+  name?: EmbeddingProviderName,
+  options: EmbeddingProviderOptions = {}
+): EmbeddingProvider {
+  const apiKey = options.apiKey || process.env.OPENAI_API_KEY;
+  const selected =
+    name || parseEmbeddingProviderName(process.env.EMBEDDING_PROVIDER) || (options.client || apiKey ? 'openai' : 'local');
+
+  if (selected === 'local') {
+    return new LocalEmbeddingProvider();
+  }
+
+  return new OpenAIEmbeddingProvider(options.client || new OpenAI({ apiKey }), options.model);
+}
+
+// Shared instance for server code that doesn't need a specific provider
+let sharedProvider: EmbeddingProvider | null = null;
+
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!sharedProvider) {
+    sharedProvider = createEmbeddingProvider();
+    logger.info(`Using ${sharedProvider.name} embeddings (${sharedProvider.model}, ${sharedProvider.dimensions} dimensions)`);
+  }
+
+  return sharedProvider;
+}
+
+export default getEmbeddingProvider;
@@ -0,0 +1,373 @@
+/**
+ * Hierarchical Navigable Small World (HNSW) graph for approximate nearest
+ * neighbour search over chunk embeddings.
+ *
+ * Only the graph structure is serialised; vectors are attached from the chunk
+ * JSON files when the index is loaded so embeddings are not stored twice.
+ */
+
+export interface HNSWParams {
+  M: number;
+  efConstruction: number;
+  efSearch: number;
+}
+
+export interface SerializedHNSWIndex {
+  version: number;
+  params: HNSWParams;
+  entryPoint: string | null;
+  maxLevel: number;
+  documents: Record<string, string>;
+  nodes: Array<[string, number, string[][]]>;
+}
+
+export interface HNSWSearchResult {
+  key: string;
+  similarity: number;
+}
+
+interface HNSWNode {
+  level: number;
+  neighbors: string[][];
+  deleted: boolean;
+}
+
+interface Candidate {
+  key: string;
+  distance: number;
+}
+
+export const HNSW_INDEX_VERSION = 1;
+
+export const DEFAULT_HNSW_PARAMS: HNSWParams = {
+  M: 16,
+  efConstruction: 200,
+  efSearch: 64,
+};
+
+// Normalise a vector so cosine similarity becomes a plain dot product
+function normalize(vector: number[]): number[] {
+  let norm = 0;
+
+  for (let i = 0; i < vector.length; i++) {
+    norm += vector[i] * vector[i];
+  }
+
+  norm = Math.sqrt(norm);
+
+  return norm === 0 ? vector.slice() : vector.map(value => value / norm);
+}
+
+// Insert into an array kept sorted by ascending distance
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let low = 0;
+  let high = list.length;
+
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+
+    if (list[mid].distance < candidate.distance) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+
+  list.splice(low, 0, candidate);
+}
+
+export class HNSWIndex {
+  readonly params: HNSWParams;
+  private nodes = new Map<string, HNSWNode>();
+  private vectors = new Map<string, number[]>();
+  private entryPoint: string | null = null;
+  private maxLevel = -1;
+  private deletedCount = 0;
+  private levelMultiplier: number;
+
+  // Signature of each indexed document, used to detect stale entries on load
+  documents: Record<string, string> = {};
+
+  constructor(params: Partial<HNSWParams> = {}) {
+    this.params = { ...DEFAULT_HNSW_PARAMS, ...params };
+    this.levelMultiplier = 1 / Math.log(this.params.M);
+  }
+
+  get size(): number {
+    return this.nodes.size - this.deletedCount;
+  }
+
+  // Fraction of nodes that are tombstoned and only kept for graph connectivity
+  get deletedRatio(): number {
+    return this.nodes.size === 0 ? 0 : this.deletedCount / this.nodes.size;
+  }
+
+  has(key: string): boolean {
+    const node = this.nodes.get(key);
+
+    return !!node && !node.deleted;
+  }
+
+  keys(): string[] {
+    return Array.from(this.nodes.entries())
+      .filter(([, node]) => !node.deleted)
+      .map(([key]) => key);
+  }
+
+  // Keys present in the graph that have no vector attached (e.g. after loading)
+  missingVectors(): string[] {
+    return this.keys().filter(key => !this.vectors.has(key));
+  }
+
+  attachVector(key: string, vector: number[]): void {
+    if (this.nodes.has(key)) {
+      this.vectors.set(key, normalize(vector));
+    }
+  }
+
+  private distance(a: number[], b: number[]): number {
+    let dot = 0;
+    const length = Math.min(a.length, b.length);
+
+    for (let i = 0; i < length; i++) {
+      dot += a[i] * b[i];
+    }
+
+    return 1 - dot;
+  }
+
+  private distanceTo(query: number[], key: string): number {
+    const vector = this.vectors.get(key);
+
+    return vector ? this.distance(query, vector) : Number.POSITIVE_INFINITY;
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+  }
+
+  private maxConnections(layer: number): number {
+    return layer === 0 ? this.params.M * 2 : this.params.M;
+  }
+
+  // Greedy best-first search restricted to one layer of the graph
+  private searchLayer(query: number[], entryPoints: string[], ef: number, layer: number): Candidate[] {
+    const visited = new Set<string>(entryPoints);
+    const candidates: Candidate[] = [];
+    const results: Candidate[] = [];
+
+    for (const key of entryPoints) {
+      const candidate = { key, distance: this.distanceTo(query, key) };
+
+      insertSorted(candidates, candidate);
+      insertSorted(results, candidate);
+    }
+
+    while (candidates.length > 0) {
+      const current = candidates.shift() as Candidate;
+      const furthest = results[results.length - 1];
+
+      if (results.length >= ef && current.distance > furthest.distance) {
+        break;
+      }
+
+      const neighbors = this.nodes.get(current.key)?.neighbors[layer] || [];
+
+      for (const neighbor of neighbors) {
+        if (visited.has(neighbor)) {
+          continue;
+        }
+
+        visited.add(neighbor);
+
+        const distance = this.distanceTo(query, neighbor);
+
+        if (results.length < ef || distance < results[results.length - 1].distance) {
+          insertSorted(candidates, { key: neighbor, distance });
+          insertSorted(results, { key: neighbor, distance });
+
+          if (results.length > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // Keep the closest candidates for a neighbour list
+  private selectNeighbors(candidates: Candidate[], count: number): string[] {
+    return candidates.slice(0, count).map(candidate => candidate.key);
+  }
+
+  private pruneConnections(key: string, layer: number): void {
+    const node = this.nodes.get(key);
+    const vector = this.vectors.get(key);
+
+    if (!node || !vector) {
+      return;
+    }
+
+    const limit = this.maxConnections(layer);
+
+    if (node.neighbors[layer].length <= limit) {
+      return;
+    }
+
+    const ranked: Candidate[] = [];
+
+    for (const neighbor of node.neighbors[layer]) {
+      insertSorted(ranked, { key: neighbor, distance: this.distanceTo(vector, neighbor) });
+    }
+
+    node.neighbors[layer] = this.selectNeighbors(ranked, limit);
+  }
+
+  add(key: string, rawVector: number[]): void {
+    const existing = this.nodes.get(key);
+
+    // Re-adding a key replaces the old node; neighbours pointing at it now reach the new one
+    if (existing) {
+      if (existing.deleted) {
+        this.deletedCount--;
+      }
+
+      this.nodes.delete(key);
+    }
+
+    const vector = normalize(rawVector);
+    const level = this.randomLevel();
+    const node: HNSWNode = {
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      deleted: false,
+    };
+
+    this.nodes.set(key, node);
+    this.vectors.set(key, vector);
+
+    if (this.entryPoint === null) {
+      this.entryPoint = key;
+      this.maxLevel = level;
+
+      return;
+    }
+
+    let entryPoints = [this.entryPoint];
+
+    // Descend through the layers above the new node's level
+    for (let layer = this.maxLevel; layer > level; layer--) {
+      entryPoints = [this.searchLayer(vector, entryPoints, 1, layer)[0].key];
+    }
+
+    for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+      const candidates = this.searchLayer(vector, entryPoints, this.params.efConstruction, layer)
+        .filter(candidate => candidate.key !== key);
+      const neighbors = this.selectNeighbors(candidates, this.maxConnections(layer));
+
+      node.neighbors[layer] = neighbors;
+
+      for (const neighbor of neighbors) {
+        const neighborNode = this.nodes.get(neighbor);
+
+        if (neighborNode && neighborNode.neighbors[layer]) {
+          neighborNode.neighbors[layer].push(key);
+          this.pruneConnections(neighbor, layer);
+        }
+      }
+
+      if (candidates.length > 0) {
+        entryPoints = candidates.map(candidate => candidate.key);
+      }
+    }
+
+    if (level > this.maxLevel) {
+      this.entryPoint = key;
+      this.maxLevel = level;
+    }
+  }
+
+  /**
+   * Tombstone a node. It stays in the graph to keep it navigable but is never
+   * returned from search; callers rebuild once too many nodes are deleted.
+   */
+  remove(key: string): boolean {
+    const node = this.nodes.get(key);
+
+    if (!node || node.deleted) {
+      return false;
+    }
+
+    node.deleted = true;
+    this.deletedCount++;
+
+    return true;
+  }
+
+  search(
+    rawQuery: number[],
+    k: number,
+    options: { ef?: number; filter?: (key: string) => boolean } = {}
+  ): HNSWSearchResult[] {
+    if (this.entryPoint === null || this.size === 0) {
+      return [];
+    }
+
+    const query = normalize(rawQuery);
+    const ef = Math.max(options.ef || this.params.efSearch, k);
+    let entryPoints = [this.entryPoint];
+
+    for (let layer = this.maxLevel; layer > 0; layer--) {
+      entryPoints = [this.searchLayer(query, entryPoints, 1, layer)[0].key];
+    }
+
+    return this.searchLayer(query, entryPoints, ef, 0)
+      .filter(candidate => {
+        const node = this.nodes.get(candidate.key);
+
+        return !!node && !node.deleted && this.vectors.has(candidate.key) &&
+          (!options.filter || options.filter(candidate.key));
+      })
+      .slice(0, k)
+      .map(candidate => ({ key: candidate.key, similarity: 1 - candidate.distance }));
+  }
+
+  serialize(): SerializedHNSWIndex {
+    return {
+      version: HNSW_INDEX_VERSION,
+      params: this.params,
+      entryPoint: this.entryPoint,
+      maxLevel: this.maxLevel,
+      documents: this.documents,
+      nodes: Array.from(this.nodes.entries()).map(([key, node]) => [node.deleted ? `!${key}` : key, node.level, node.neighbors]),
+    };
+  }
+
+  static deserialize(data: SerializedHNSWIndex): HNSWIndex {
+    if (data.version !== HNSW_INDEX_VERSION) {
+      throw new Error(`Unsupported HNSW index version: ${data.version}`);
+    }
+
+    const index = new HNSWIndex(data.params);
+
+    index.entryPoint = data.entryPoint;
+    index.maxLevel = data.maxLevel;
+    index.documents = data.documents || {};
+
+    for (const [rawKey, level, neighbors] of data.nodes) {
+      const deleted = rawKey.startsWith('!');
+      const key = deleted ? rawKey.slice(1) : rawKey;
+
+      index.nodes.set(key, { level, neighbors, deleted });
+
+      if (deleted) {
+        index.deletedCount++;
+      }
+    }
+
+    return index;
+  }
+}
+
+export default HNSWIndex;
@@ -0,0 +1,106 @@
+/**
+ * Convert exported HTML help pages into structured text for the chunker:
+ * headings become Markdown `#` lines, list items become `-` or numbered lines
+ * and table rows become `| cell | cell |` lines.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  bull: '•',
+  copy: '©',
+  reg: '®',
+  trade: '™',
+};
+
+/**
+ * Decode HTML and XML character references
+ * @param text Text containing entities such as `&amp;` or `&#8217;`
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Text of an HTML fragment on one line
+function inlineText(html: string): string {
+  return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+}
+
+// One "| cell | cell |" line per table row
+function tableText(tableHtml: string): string {
+  const rows = tableHtml.match(/<tr\b[\s\S]*?<\/tr>/gi) || [];
+
+  return rows
+    .map(row => (row.match(/<t[hd]\b[\s\S]*?<\/t[hd]>/gi) || []).map(cell => inlineText(cell).replace(/\|/g, '/')))
+    .filter(cells => cells.some(Boolean))
+    .map(cells => `| ${cells.join(' | ')} |`)
+    .join('\n');
+}
+
+// Turn list items into numbered or "-" lines, innermost lists first so nested items keep their own markers
+function listText(html: string): string {
+  const innermostList = /<(ol|ul)\b[^>]*>((?:(?!<[ou]l\b)[\s\S])*?)<\/\1>/i;
+  let result = html;
+
+  for (let match = result.match(innermostList); match; match = result.match(innermostList)) {
+    const ordered = match[1].toLowerCase() === 'ol';
+    let number = 0;
+    const items = match[2]
+      .replace(/<li\b[^>]*>/gi, () => (ordered ? `\n${++number}. ` : '\n- '))
+      .replace(/<\/li>/gi, '\n');
+
+    result = result.replace(match[0], () => `\n\n${items}\n\n`);
+  }
+
+  return result;
+}
+
+/**
+ * Convert an HTML document into text that keeps its headings, lists and tables
+ * @param html The HTML source
+ * @returns Structured plain text
+ */
+export function htmlToStructuredText(html: string): string {
+  let text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(script|style|noscript|template|svg|head|nav)\b[\s\S]*?<\/\1>/gi, '');
+
+  const body = text.match(/<body\b[^>]*>([\s\S]*)<\/body>/i);
+
+  text = body ? body[1] : text;
+  text = text.replace(/<table\b[\s\S]*?<\/table>/gi, table => `\n\n${tableText(table)}\n\n`);
+  text = text.replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_match, level: string, content: string) =>
+    `\n\n${'#'.repeat(Number(level))} ${inlineText(content)}\n\n`
+  );
+  text = listText(text)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/?(p|div|section|article|main|header|footer|dl|dt|dd|blockquote|pre|figure|figcaption|aside)\b[^>]*>/gi, '\n\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t ]+/g, ' ').trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
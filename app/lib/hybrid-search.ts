@@ -0,0 +1,132 @@
+import createLogger from './logger';
+import {
+  getVectorStore,
+  VectorSearchFilter,
+  VectorSearchMode,
+  VectorSearchResult,
+  VectorStore,
+} from './vector-store';
+
+// Create a logger for this module
+const logger = createLogger('HYBRID-SEARCH');
+
+/**
+ * Weights for reciprocal rank fusion. Each list contributes
+ * `weight / (k + rank)` for every chunk it returns.
+ */
+export interface FusionWeights {
+  vector: number;
+  keyword: number;
+  k: number;
+}
+
+export interface HybridSearchOptions {
+  topK?: number;
+  filter?: VectorSearchFilter;
+  mode?: VectorSearchMode;
+  fusion?: Partial<FusionWeights>;
+  // Model that produced the query embedding
+  embeddingModel?: string;
+  // How many candidates each retriever contributes before fusion
+  candidates?: number;
+}
+
+export const DEFAULT_FUSION_WEIGHTS: FusionWeights = {
+  vector: 1,
+  keyword: 1,
+  k: 60,
+};
+
+// Identify a chunk independently of which retriever returned it
+function resultKey(result: VectorSearchResult): string {
+  return `${result.documentId}::${result.metadata?.chunk}`;
+}
+
+/**
+ * Validate fusion weights coming from a request body. Unknown or invalid values
+ * fall back to the defaults rather than failing the request.
+ */
+export function parseFusionWeights(input: any): FusionWeights {
+  const weights = { ...DEFAULT_FUSION_WEIGHTS };
+
+  if (!input || typeof input !== 'object') {
+    return weights;
+  }
+
+  for (const name of ['vector', 'keyword', 'k'] as const) {
+    const value = Number(input[name]);
+
+    if (input[name] !== undefined && Number.isFinite(value) && value >= 0) {
+      weights[name] = value;
+    }
+  }
+
+  return weights;
+}
+
+// Combine ranked lists with weighted reciprocal rank fusion
+export function reciprocalRankFusion(
+  lists: Array<{ results: VectorSearchResult[]; weight: number }>,
+  k: number = DEFAULT_FUSION_WEIGHTS.k
+): VectorSearchResult[] {
+  const fused = new Map<string, VectorSearchResult>();
+
+  for (const { results, weight } of lists) {
+    if (weight <= 0) {
+      continue;
+    }
+
+    results.forEach((result, rank) => {
+      const key = resultKey(result);
+      const contribution = weight / (k + rank + 1);
+      const existing = fused.get(key);
+
+      if (existing) {
+        existing.score = (existing.score || 0) + contribution;
+        existing.similarity = Math.max(existing.similarity, result.similarity);
+        existing.keywordScore = existing.keywordScore ?? result.keywordScore;
+        existing.keywordCoverage = existing.keywordCoverage ?? result.keywordCoverage;
+      } else {
+        fused.set(key, { ...result, score: contribution });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => (b.score || 0) - (a.score || 0));
+}
+
+/**
+ * Retrieve chunks with both embedding similarity and BM25 keyword matching and
+ * merge the two rankings.
+ */
+export async function hybridSearch(
+  query: string,
+  queryEmbedding: number[],
+  options: HybridSearchOptions = {},
+  store: VectorStore = getVectorStore()
+): Promise<VectorSearchResult[]> {
+  const { topK = 5, filter, mode, embeddingModel } = options;
+  const fusion = { ...DEFAULT_FUSION_WEIGHTS, ...options.fusion };
+  const candidates = Math.max(options.candidates || topK * 4, topK);
+
+  const [vectorResults, keywordResults] = await Promise.all([
+    fusion.vector > 0
+      ? store.search(queryEmbedding, { topK: candidates, filter, mode, embeddingModel })
+      : Promise.resolve([]),
+    fusion.keyword > 0
+      ? store.keywordSearch(query, { topK: candidates, filter, queryEmbedding, embeddingModel })
+      : Promise.resolve([]),
+  ]);
+
+  logger.info(`Fusing ${vectorResults.length} vector and ${keywordResults.length} keyword candidates`);
+
+  return reciprocalRankFusion(
+    [
+      { results: vectorResults, weight: fusion.vector },
+      { results: keywordResults, weight: fusion.keyword },
+    ],
+    fusion.k
+  ).slice(0, topK);
+}
+
+export default hybridSearch;
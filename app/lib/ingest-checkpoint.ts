@@ -0,0 +1,72 @@
+import { v4 as uuidv4 } from 'uuid';
+
+import createLogger from './logger';
+import { getBlobStorage, JOBS_DIR_NAME, readJsonBlob, writeJsonBlob } from './blob-storage';
+
+// Create a logger for this module
+const logger = createLogger('INGEST-CHECKPOINT');
+
+/**
+ * Embedding progress of an upload, saved after every batch so that an upload
+ * that fails part way (rate limits, a function timeout) can be resumed with
+ * only the missing chunks embedded.
+ */
+export interface IngestCheckpoint {
+  uploadId: string;
+  // Upload's key in the blob storage
+  fileKey: string;
+  category: string;
+  model: string;
+  // Chunk texts, so a resume can tell whether the document still splits the same way
+  chunks: string[];
+  embeddings: Array<number[] | null>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Upload IDs become storage keys, so only allow a safe character set
+const UPLOAD_ID_PATTERN = /^upload_[A-Za-z0-9-]{1,64}$/;
+
+export function createUploadId(): string {
+  return `upload_${uuidv4()}`;
+}
+
+export function isValidUploadId(id: unknown): id is string {
+  return typeof id === 'string' && UPLOAD_ID_PATTERN.test(id);
+}
+
+function checkpointKey(uploadId: string): string {
+  return `${JOBS_DIR_NAME}/ingest-${uploadId}.json`;
+}
+
+export async function loadIngestCheckpoint(uploadId: string): Promise<IngestCheckpoint | null> {
+  if (!isValidUploadId(uploadId)) {
+    return null;
+  }
+
+  try {
+    return await readJsonBlob<IngestCheckpoint>(getBlobStorage(), checkpointKey(uploadId));
+  } catch {
+    return null;
+  }
+}
+
+export async function saveIngestCheckpoint(checkpoint: IngestCheckpoint): Promise<void> {
+  checkpoint.updatedAt = new Date().toISOString();
+
+  // Losing a checkpoint only means a resume starts over, so don't fail the upload
+  try {
+    await writeJsonBlob(getBlobStorage(), checkpointKey(checkpoint.uploadId), checkpoint);
+  } catch (error) {
+    logger.warn(`Could not save progress of ${checkpoint.uploadId}:`, error);
+  }
+}
+
+export async function deleteIngestCheckpoint(uploadId: string): Promise<void> {
+  await getBlobStorage().delete(checkpointKey(uploadId)).catch(() => undefined);
+}
+
+// Number of chunks that already have a vector
+export function embeddedChunkCount(checkpoint: IngestCheckpoint): number {
+  return checkpoint.embeddings.filter(Boolean).length;
+}
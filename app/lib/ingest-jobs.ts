@@ -0,0 +1,365 @@
+import createLogger from './logger';
+import { getBlobStorage, JOBS_DIR_NAME, readJsonBlob } from './blob-storage';
+import { createCachedEmbeddingProvider, EmbeddingCacheReport } from './embedding-cache';
+import { IngestProgressUpdate, IngestStage, processDocument } from './document-ingest';
+import { EXTRACTION_FAILURE_STATUS, ExtractionReport } from './document-extractor';
+import { createUploadId, isValidUploadId } from './ingest-checkpoint';
+import { DocumentMetadata } from './vector-store';
+import { DEFAULT_DUPLICATE_POLICY, DuplicateMatch, DuplicatePolicy } from './document-fingerprint';
+
+// Create a logger for this module
+const logger = createLogger('INGEST-JOBS');
+
+/**
+ * Background processing of uploads.
+ *
+ * The upload route only saves the file and queues a job. With
+ * INGEST_WORKER_URL set, the job is handed to that background function (see
+ * netlify/functions/ingest-background), which runs in its own invocation;
+ * otherwise a worker in the server process extracts, chunks, embeds and
+ * indexes queued jobs one at a time. That only works on a long-running server:
+ * serverless platforms freeze a function once its response is sent.
+ *
+ * Job state is written to `.jobs/ingest-job-<id>.json` in the blob storage as
+ * it changes, and refreshed every HEARTBEAT_INTERVAL_MS while a job waits or
+ * runs, so clients can poll it from any server instance and a job whose
+ * process died is recognized by its stale `updatedAt`. A job's ID is also the
+ * upload ID its embedding checkpoint is saved under, so retrying a failed job
+ * only embeds the chunks that are still missing.
+ */
+
+export type IngestJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface IngestJob {
+  id: string;
+  status: IngestJobStatus;
+  // Last step that finished
+  stage: IngestStage;
+  // Overall completion, 0-100
+  progress: number;
+  fileName: string;
+  // Upload's key in the blob storage
+  fileKey: string;
+  category: string;
+  // ID of the document this upload replaces with a new version
+  replaces?: string;
+  // What to do if the upload duplicates another document
+  onDuplicate?: DuplicatePolicy;
+  // Documents the upload duplicates
+  duplicates?: DuplicateMatch[];
+  embeddedChunks: number;
+  totalChunks: number;
+  document?: DocumentMetadata;
+  // Outcome of text extraction, once it has run
+  extraction?: ExtractionReport;
+  error?: string;
+  // HTTP status matching the failure: 4xx when the file itself can't be processed
+  errorStatus?: number;
+  // Failed and interrupted jobs can be retried, reusing the chunks already embedded;
+  // jobs whose file couldn't be extracted can't
+  resumable?: boolean;
+  embeddingCache?: EmbeddingCacheReport;
+  createdAt: string;
+  updatedAt: string;
+  completedAt?: string;
+}
+
+export interface IngestJobInput {
+  fileKey: string;
+  fileName: string;
+  category: string;
+  replaces?: string;
+  onDuplicate?: DuplicatePolicy;
+}
+
+// Completion reached when each stage finishes; embedding fills the gap between chunked and embedded
+const STAGE_PROGRESS: Record<IngestStage, number> = {
+  queued: 0,
+  saved: 5,
+  extracted: 15,
+  chunked: 20,
+  embedded: 95,
+  indexed: 100,
+};
+
+// How often queued and running jobs refresh their updatedAt
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+// A queued or running job without an update for this long has stopped
+const STALE_JOB_MS = (Number(process.env.INGEST_JOB_STALE_SECONDS) || 180) * 1000;
+
+// Background function that processes queued jobs; unset to process them in this process
+const WORKER_URL = process.env.INGEST_WORKER_URL;
+
+// Jobs that are queued or running in this server process
+const activeJobs = new Map<string, IngestJob>();
+const queue: IngestJob[] = [];
+let worker: Promise<void> | null = null;
+// Writes are chained so a slow write never overwrites a newer state
+let persisting = Promise.resolve();
+
+function jobKey(id: string): string {
+  return `${JOBS_DIR_NAME}/ingest-job-${id}.json`;
+}
+
+function jobProgress(job: IngestJob): number {
+  if (job.stage === 'chunked' && job.totalChunks > 0) {
+    const share = job.embeddedChunks / job.totalChunks;
+
+    return Math.round(STAGE_PROGRESS.chunked + share * (STAGE_PROGRESS.embedded - STAGE_PROGRESS.chunked));
+  }
+
+  return STAGE_PROGRESS[job.stage];
+}
+
+function persistJob(job: IngestJob): Promise<void> {
+  const content = JSON.stringify(job);
+
+  persisting = persisting.then(async () => {
+    try {
+      await getBlobStorage().put(jobKey(job.id), content);
+    } catch (error) {
+      logger.warn(`Could not save state of job ${job.id}:`, error);
+    }
+  });
+
+  return persisting;
+}
+
+function updateJob(job: IngestJob, changes: Partial<IngestJob>): Promise<void> {
+  Object.assign(job, changes);
+  job.progress = jobProgress(job);
+  job.updatedAt = new Date().toISOString();
+
+  return persistJob(job);
+}
+
+// Keep the updatedAt of every active job fresh while an operation runs
+async function withHeartbeat<T>(operation: () => Promise<T>): Promise<T> {
+  const timer = setInterval(() => {
+    Array.from(activeJobs.values()).forEach(job => updateJob(job, {}));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    return await operation();
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+async function runJob(job: IngestJob): Promise<void> {
+  const embeddings = createCachedEmbeddingProvider();
+
+  await updateJob(job, { status: 'running', error: undefined, errorStatus: undefined, resumable: undefined });
+
+  try {
+    const document = await processDocument(
+      job.fileKey,
+      job.category,
+      embeddings,
+      job.id,
+      (update: IngestProgressUpdate) => {
+        updateJob(job, update);
+      },
+      { replaces: job.replaces, onDuplicate: job.onDuplicate }
+    );
+
+    await updateJob(job, {
+      status: 'completed',
+      stage: 'indexed',
+      document,
+      embeddingCache: embeddings.cacheStats(),
+      completedAt: new Date().toISOString(),
+    });
+    logger.info(`Job ${job.id} completed: document ${document.id}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    // 409 when the upload was rejected as a duplicate of another document
+    const rejectedAsDuplicate = (job.onDuplicate || DEFAULT_DUPLICATE_POLICY) === 'reject' && (job.duplicates?.length || 0) > 0;
+    const errorStatus = rejectedAsDuplicate ? 409 : job.extraction?.reason ? EXTRACTION_FAILURE_STATUS[job.extraction.reason] : 500;
+
+    logger.error(`Job ${job.id} failed at stage ${job.stage}:`, message);
+    await updateJob(job, {
+      status: 'failed',
+      error: message,
+      errorStatus,
+      resumable: errorStatus >= 500,
+      embeddingCache: embeddings.cacheStats(),
+      completedAt: new Date().toISOString(),
+    });
+  }
+}
+
+// Work through the queue; only one worker runs at a time
+function startWorker() {
+  if (worker) {
+    return;
+  }
+
+  worker = withHeartbeat(async () => {
+    for (let job = queue.shift(); job; job = queue.shift()) {
+      await runJob(job);
+      activeJobs.delete(job.id);
+    }
+  }).finally(() => {
+    worker = null;
+  });
+}
+
+// Hand a stored job to the background function, which answers as soon as it has started
+async function dispatch(job: IngestJob, workerUrl: string): Promise<void> {
+  const response = await fetch(workerUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jobId: job.id }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`${workerUrl} answered ${response.status}`);
+  }
+}
+
+async function enqueue(job: IngestJob): Promise<IngestJob> {
+  if (WORKER_URL) {
+    // The background function reads the job from storage
+    await persistJob(job);
+
+    try {
+      await dispatch(job, WORKER_URL);
+      logger.info(`Handed job ${job.id} for ${job.fileName} to ${WORKER_URL}`);
+
+      return job;
+    } catch (error) {
+      logger.warn(`Could not hand job ${job.id} to the background worker, processing it here:`, error);
+    }
+  }
+
+  activeJobs.set(job.id, job);
+  queue.push(job);
+  persistJob(job);
+  logger.info(`Queued job ${job.id} for ${job.fileName} (${queue.length} waiting)`);
+  startWorker();
+
+  return job;
+}
+
+/**
+ * Queue a saved upload for processing and return its job once it is queued.
+ */
+export function enqueueIngestJob(input: IngestJobInput): Promise<IngestJob> {
+  const now = new Date().toISOString();
+
+  return enqueue({
+    id: createUploadId(),
+    status: 'queued',
+    stage: 'saved',
+    progress: STAGE_PROGRESS.saved,
+    ...input,
+    onDuplicate: input.onDuplicate || DEFAULT_DUPLICATE_POLICY,
+    embeddedChunks: 0,
+    totalChunks: 0,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Process a job queued by another server instance, as the background worker
+ * function does. Resolves with the job's final state, or null if there is no
+ * such job waiting to be processed.
+ */
+export async function runQueuedIngestJob(id: string): Promise<IngestJob | null> {
+  if (!isValidUploadId(id) || activeJobs.has(id)) {
+    return null;
+  }
+
+  const job = await readJsonBlob<IngestJob>(getBlobStorage(), jobKey(id));
+
+  if (!job || job.status !== 'queued') {
+    return null;
+  }
+
+  activeJobs.set(id, job);
+
+  try {
+    await withHeartbeat(() => runJob(job));
+  } finally {
+    activeJobs.delete(id);
+  }
+
+  return job;
+}
+
+// Whether a job recorded as queued or running is still being worked on somewhere
+function isStale(job: IngestJob): boolean {
+  return (job.status === 'queued' || job.status === 'running') && Date.now() - Date.parse(job.updatedAt) > STALE_JOB_MS;
+}
+
+/**
+ * Current state of a job. A job recorded as queued or running whose state
+ * hasn't been refreshed for STALE_JOB_MS was cut off, e.g. by a restart or a
+ * frozen function, and is reported as failed; it can be retried.
+ */
+export async function getIngestJob(id: string): Promise<IngestJob | null> {
+  if (!isValidUploadId(id)) {
+    return null;
+  }
+
+  const active = activeJobs.get(id);
+
+  if (active) {
+    return active;
+  }
+
+  try {
+    const job = await readJsonBlob<IngestJob>(getBlobStorage(), jobKey(id));
+
+    if (!job) {
+      return null;
+    }
+
+    if (isStale(job)) {
+      return {
+        ...job,
+        status: 'failed',
+        error: `Processing stopped at stage ${job.stage}: the server stopped working on it`,
+        errorStatus: 500,
+        resumable: true,
+      };
+    }
+
+    return job;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Queue a failed job again. Returns null for an unknown job and the job itself
+ * if it is still queued or running; throws if it already completed.
+ */
+export async function retryIngestJob(id: string): Promise<IngestJob | null> {
+  const job = await getIngestJob(id);
+
+  if (!job || job.status === 'queued' || job.status === 'running') {
+    return job;
+  }
+
+  if (job.status === 'completed') {
+    throw new Error('This upload has already been processed');
+  }
+
+  return enqueue({
+    ...job,
+    status: 'queued',
+    stage: 'saved',
+    progress: STAGE_PROGRESS.saved,
+    extraction: undefined,
+    duplicates: undefined,
+    error: undefined,
+    errorStatus: undefined,
+    resumable: undefined,
+    completedAt: undefined,
+    updatedAt: new Date().toISOString(),
+  });
+}
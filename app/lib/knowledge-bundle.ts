@@ -0,0 +1,349 @@
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { basename } from 'path';
+
+import { BlobStorage, getBlobStorage } from './blob-storage';
+import createLogger from './logger';
+import { DocumentMetadata, documentEmbeddingModel, documentIdOf, getVectorStore, StoredDocument, VectorStore } from './vector-store';
+import { readZipEntries, writeZip } from './zip-utils';
+
+// Create a logger for this module
+const logger = createLogger('BUNDLE');
+
+/**
+ * Knowledge base bundles: one zip archive holding every stored document, with
+ * its chunks, embeddings, metadata, uploaded file and all of its versions, for
+ * moving a curated knowledge base between deployments.
+ *
+ * `manifest.json` records the bundle format version, the embedding models the
+ * documents were embedded with and a SHA-256 checksum of every document file,
+ * so a damaged or hand-edited bundle is refused before anything is imported.
+ */
+
+export const BUNDLE_FORMAT = 'knowledge-base-bundle';
+// Raised when the layout changes; bundles with a newer version are refused
+export const BUNDLE_FORMAT_VERSION = 1;
+
+const MANIFEST_FILE = 'manifest.json';
+const DOCUMENTS_FOLDER = 'documents/';
+// Uploaded files, as originals/<version id>/<file name>
+const ORIGINALS_FOLDER = 'originals/';
+
+export interface BundleFile {
+  path: string;
+  sha256: string;
+  bytes: number;
+}
+
+export interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  formatVersion: number;
+  createdAt: string;
+  // Stored documents, counting every version
+  documents: number;
+  // Number of documents embedded with each model
+  embeddingModels: Record<string, number>;
+  files: BundleFile[];
+}
+
+export interface KnowledgeBundle {
+  manifest: BundleManifest;
+  documents: StoredDocument[];
+  // Uploaded file of each version, by version ID; missing when it was no longer on disk at export
+  originals: Map<string, Buffer>;
+}
+
+export type BundleReadResult = ({ valid: true } & KnowledgeBundle) | { valid: false; errors: string[] };
+
+// merge keeps documents that aren't in the bundle; replace deletes them
+export type ImportMode = 'merge' | 'replace';
+
+// What to do with documents embedded with another model than the one queries use
+export type ModelMismatchPolicy = 'reject' | 'keep' | 'reembed';
+
+export interface ImportOptions {
+  mode?: ImportMode;
+  onModelMismatch?: ModelMismatchPolicy;
+  // Model that embeds queries in the importing deployment
+  embeddingModel: string;
+  store?: VectorStore;
+  // Where uploaded files are written
+  storage?: BlobStorage;
+}
+
+export interface ImportReport {
+  mode: ImportMode;
+  // Documents and versions written from the bundle
+  documents: number;
+  versions: number;
+  // Bundle documents that were new, and that replaced a document with the same ID
+  added: number;
+  replaced: number;
+  // Documents deleted because they weren't in the bundle (replace mode)
+  removed: number;
+  // Documents embedded with another model than embeddingModel, by model
+  mismatchedModels: Record<string, number>;
+}
+
+export type ImportResult =
+  | ({ status: 'imported' } & ImportReport)
+  | { status: 'rejected'; reason: 'model-mismatch'; message: string; mismatchedModels: Record<string, number> };
+
+export function parseImportMode(input: any): ImportMode | undefined {
+  return input === 'merge' || input === 'replace' ? input : undefined;
+}
+
+export function parseModelMismatchPolicy(input: any): ModelMismatchPolicy | undefined {
+  return input === 'reject' || input === 'keep' || input === 'reembed' ? input : undefined;
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function countModels(documents: StoredDocument[], exclude?: string): Record<string, number> {
+  const counts: Record<string, number> = {};
+
+  documents
+    .map(document => documentEmbeddingModel(document.metadata))
+    .filter(model => model !== exclude)
+    .forEach(model => {
+      counts[model] = (counts[model] || 0) + 1;
+    });
+
+  return counts;
+}
+
+// Uploaded file of a document; documents stored before blob storage recorded a path on disk
+async function readOriginal(metadata: DocumentMetadata, storage: BlobStorage): Promise<Buffer | null> {
+  if (metadata.fileKey) {
+    return storage.get(metadata.fileKey);
+  }
+
+  return metadata.filePath ? readFile(metadata.filePath).catch(() => null) : null;
+}
+
+/**
+ * Write every stored document, with all its versions, to a bundle
+ * @param store Store to export
+ * @param storage Storage holding the uploaded files
+ * @returns The archive and its manifest
+ */
+export async function exportBundle(
+  store: VectorStore = getVectorStore(),
+  storage: BlobStorage = getBlobStorage()
+): Promise<{ archive: Buffer; manifest: BundleManifest }> {
+  const entries = new Map<string, Buffer>();
+  const documents: StoredDocument[] = [];
+
+  for (const metadata of await store.listDocuments()) {
+    const document = await store.getDocument(metadata.id);
+
+    if (!document) {
+      continue;
+    }
+
+    documents.push(document);
+    entries.set(`${DOCUMENTS_FOLDER}${metadata.id}.json`, Buffer.from(JSON.stringify(document), 'utf-8'));
+
+    const original = await readOriginal(metadata, storage);
+
+    if (original) {
+      entries.set(`${ORIGINALS_FOLDER}${metadata.id}/${basename(metadata.fileName)}`, original);
+    } else {
+      logger.warn(`Uploaded file of ${metadata.id} (${metadata.fileKey || metadata.filePath}) not found; exporting its chunks only`);
+    }
+  }
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    formatVersion: BUNDLE_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    documents: documents.length,
+    embeddingModels: countModels(documents),
+    files: Array.from(entries.entries()).map(([path, content]) => ({ path, sha256: sha256(content), bytes: content.length })),
+  };
+
+  entries.set(MANIFEST_FILE, Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8'));
+  logger.info(`Exported ${documents.length} documents`);
+
+  return { archive: writeZip(entries), manifest };
+}
+
+// IDs and namespaces name blobs, so they must not reach into folders such as .index/ or .jobs/
+function isPlainName(value: unknown): value is string {
+  return typeof value === 'string' && /^[^./\\][^/\\]*$/.test(value) && !value.includes('..');
+}
+
+// Problems with a bundled document's structure, if any
+function documentErrors(path: string, document: any): string[] {
+  if (!document || typeof document.metadata?.id !== 'string' || !Array.isArray(document.chunks)) {
+    return [`${path} is not a stored document`];
+  }
+
+  if (!isPlainName(document.metadata.id) || !isPlainName(document.metadata.namespace)) {
+    return [`${path}: the document ID and namespace must be plain names, without "/", "\\", ".." or a leading "."`];
+  }
+
+  const dimensions = document.metadata.embeddingDimensions;
+  const badChunk = document.chunks.findIndex((chunk: any) =>
+    typeof chunk?.content !== 'string' ||
+    !Array.isArray(chunk.embedding) ||
+    chunk.embedding.some((value: unknown) => typeof value !== 'number') ||
+    (dimensions && chunk.embedding.length !== dimensions)
+  );
+
+  return badChunk === -1 ? [] : [`${path}: chunk ${badChunk} has no text or no valid embedding`];
+}
+
+/**
+ * Read and validate a bundle: the manifest's format, every file's checksum
+ * and the structure of every document
+ * @param archive The bundle's bytes
+ * @returns The bundle, or everything that is wrong with it
+ */
+export function readBundle(archive: Buffer): BundleReadResult {
+  let entries: Map<string, Buffer>;
+
+  try {
+    entries = readZipEntries(archive);
+  } catch (zipError) {
+    return { valid: false, errors: [zipError instanceof Error ? zipError.message : String(zipError)] };
+  }
+
+  const manifestFile = entries.get(MANIFEST_FILE);
+  let manifest: BundleManifest;
+
+  try {
+    manifest = JSON.parse(manifestFile ? manifestFile.toString('utf-8') : 'null');
+  } catch {
+    return { valid: false, errors: [`${MANIFEST_FILE} is not valid JSON`] };
+  }
+
+  if (!manifest || manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.files)) {
+    return { valid: false, errors: [`Not a knowledge base bundle (${MANIFEST_FILE} missing or of another format)`] };
+  }
+
+  if (!(manifest.formatVersion >= 1 && manifest.formatVersion <= BUNDLE_FORMAT_VERSION)) {
+    return {
+      valid: false,
+      errors: [`Bundle format version ${manifest.formatVersion} is not supported (this server reads up to version ${BUNDLE_FORMAT_VERSION})`],
+    };
+  }
+
+  const errors: string[] = [];
+  const documents: StoredDocument[] = [];
+  const originals = new Map<string, Buffer>();
+  const listed = new Set(manifest.files.map(file => file.path));
+
+  for (const file of manifest.files) {
+    const content = entries.get(file.path);
+
+    if (!content) {
+      errors.push(`${file.path} is listed in the manifest but missing`);
+      continue;
+    }
+
+    if (content.length !== file.bytes || sha256(content) !== file.sha256) {
+      errors.push(`${file.path} does not match its checksum`);
+      continue;
+    }
+
+    if (file.path.startsWith(ORIGINALS_FOLDER)) {
+      originals.set(file.path.slice(ORIGINALS_FOLDER.length).split('/')[0], content);
+      continue;
+    }
+
+    try {
+      const document = JSON.parse(content.toString('utf-8'));
+      const problems = documentErrors(file.path, document);
+
+      errors.push(...problems);
+
+      if (problems.length === 0) {
+        documents.push(document);
+      }
+    } catch {
+      errors.push(`${file.path} is not valid JSON`);
+    }
+  }
+
+  Array.from(entries.keys())
+    .filter(path => path !== MANIFEST_FILE && !listed.has(path))
+    .forEach(path => errors.push(`${path} is not listed in the manifest`));
+
+  if (new Set(documents.map(document => document.metadata.id)).size !== documents.length) {
+    errors.push('The bundle contains the same document ID more than once');
+  }
+
+  if (errors.length === 0 && documents.length !== manifest.documents) {
+    errors.push(`The manifest lists ${manifest.documents} documents but the bundle holds ${documents.length}`);
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, manifest, documents, originals };
+}
+
+/**
+ * Write a validated bundle's documents to the store. A document is replaced
+ * as a whole, with all its versions, when the bundle has a document with the
+ * same ID; replaced and removed documents are only deleted once every bundle
+ * document has been written. Uploaded files are written to the blob storage,
+ * under `<version id>/<file name>`.
+ *
+ * Vectors are only compared with vectors of the same model, so documents
+ * embedded with another model than the importing deployment's aren't found by
+ * searches until they are re-embedded. `onModelMismatch` refuses them
+ * (`reject`, the default), imports them as they are (`keep`) or imports them
+ * for the caller to re-embed (`reembed`).
+ */
+export async function importBundle(bundle: KnowledgeBundle, options: ImportOptions): Promise<ImportResult> {
+  const { mode = 'merge', onModelMismatch = 'reject', embeddingModel, store = getVectorStore(), storage = getBlobStorage() } = options;
+  const mismatchedModels = countModels(bundle.documents, embeddingModel);
+
+  if (Object.keys(mismatchedModels).length > 0 && onModelMismatch === 'reject') {
+    return {
+      status: 'rejected',
+      reason: 'model-mismatch',
+      message: `The bundle has documents embedded with ${Object.keys(mismatchedModels).join(', ')}, but this deployment embeds queries with ${embeddingModel}. Import them to be re-embedded ("reembed") or as they are ("keep") instead.`,
+      mismatchedModels,
+    };
+  }
+
+  const bundledIds = new Set(bundle.documents.map(document => documentIdOf(document.metadata)));
+  const existing = await store.listDocuments();
+  const existingIds = new Set(existing.map(documentIdOf));
+  const replaced = Array.from(existingIds).filter(documentId => bundledIds.has(documentId)).length;
+  const removed = mode === 'replace' ? existingIds.size - replaced : 0;
+  // Every stored version of a replaced or removed document goes, once the bundle's documents are written
+  const deleteVersionIds = existing
+    .filter(metadata => bundledIds.has(documentIdOf(metadata)) || mode === 'replace')
+    .map(metadata => metadata.id);
+
+  for (const document of bundle.documents) {
+    const original = bundle.originals.get(document.metadata.id);
+
+    if (original) {
+      // One folder per version, as in the bundle, so imports never overwrite other uploads or each other
+      const fileKey = `${document.metadata.id}/${basename(document.metadata.fileName).replace(/[^a-zA-Z0-9._-]/g, '_').replace(/^\./, '_')}`;
+
+      await storage.put(fileKey, original);
+      // The exporting deployment's path on disk means nothing here
+      document.metadata = { ...document.metadata, fileKey, filePath: undefined };
+    }
+  }
+
+  await store.writeBatch(bundle.documents, deleteVersionIds);
+
+  logger.info(`Imported ${bundle.documents.length} versions of ${bundledIds.size} documents (${mode}): ${replaced} replaced, ${removed} removed`);
+
+  return {
+    status: 'imported',
+    mode,
+    documents: bundledIds.size,
+    versions: bundle.documents.length,
+    added: bundledIds.size - replaced,
+    replaced,
+    removed,
+    mismatchedModels,
+  };
+}
@@ -32,6 +32,15 @@ export enum LogLevel {
   ERROR = 'ERROR',
 }
 
+const LEVEL_ORDER = [LogLevel.DEBUG, LogLevel.INFO, LogLevel.WARN, LogLevel.ERROR];
+
+// Messages below LOG_LEVEL (e.g. LOG_LEVEL=WARN) are dropped; everything is logged by default
+const isEnabled = (level: LogLevel): boolean => {
+  const minimum = LEVEL_ORDER.indexOf((process.env.LOG_LEVEL || '').toUpperCase() as LogLevel);
+
+  return LEVEL_ORDER.indexOf(level) >= Math.max(0, minimum);
+};
+
 // Custom logger class
 class Logger {
   private module: string;
@@ -47,6 +56,10 @@ class Logger {
   
   // Log to console and LogRocket
   private log(level: LogLevel, message: string, ...args: any[]): void {
+    if (!isEnabled(level)) {
+      return;
+    }
+
     const formattedMessage = this.formatMessage(message);
     
     // Always log to console
@@ -0,0 +1,151 @@
+import { mkdir } from 'fs/promises';
+import { join } from 'path';
+
+import createLogger from './logger';
+import { storageSubdirectory } from './init-storage';
+import { measureImageCoverage, PdfPageText, renderPdfPages } from './pdf-utils';
+
+// Create a logger for this module
+const logger = createLogger('OCR');
+
+/**
+ * OCR for scanned PDF pages.
+ *
+ * Pages with (almost) no text layer that are mostly one image are rendered
+ * to images and read with tesseract.js, which runs locally in WebAssembly. Language data is
+ * downloaded once into `storage/cache/tesseract`, or read from
+ * `OCR_LANG_PATH` where the server has no internet access.
+ */
+
+// Text of one page recognised by OCR
+export interface OcrPageText {
+  pageNumber: number;
+  text: string;
+  // Tesseract's mean word confidence, 0-100
+  confidence: number;
+}
+
+// A page OCR couldn't process, e.g. because it failed to render
+export interface OcrPageFailure {
+  pageNumber: number;
+  error: string;
+}
+
+export interface OcrResult {
+  // Pages with usable recognised text, in order
+  pages: OcrPageText[];
+  failures: OcrPageFailure[];
+}
+
+// Set OCR_ENABLED=false to index scanned pages as empty instead
+export const OCR_ENABLED = process.env.OCR_ENABLED !== 'false';
+
+const OCR_LANGUAGE = process.env.OCR_LANGUAGE || 'eng';
+// Pages with fewer letters and digits than this are treated as scans
+const MIN_PAGE_CHARACTERS = Number(process.env.OCR_MIN_PAGE_CHARS) || 25;
+// ... and only when images cover at least this share of the page, so title and divider pages aren't
+const MIN_IMAGE_COVERAGE = Number(process.env.OCR_MIN_IMAGE_COVERAGE) || 0.5;
+// Recognised text below this confidence is too unreliable to index
+const MIN_CONFIDENCE = Number(process.env.OCR_MIN_CONFIDENCE) || 40;
+// 3 is about 216 DPI, enough for body text in most scans
+const RENDER_SCALE = Number(process.env.OCR_RENDER_SCALE) || 3;
+
+export const OCR_CACHE_DIR = join('cache', 'tesseract');
+
+/**
+ * Whether a page's extracted text is too short to be its real content
+ * @param text Text extracted from the page's text layer
+ */
+export function needsOcr(text: string): boolean {
+  return text.replace(/[^\p{L}\p{N}]/gu, '').length < MIN_PAGE_CHARACTERS;
+}
+
+/**
+ * Pages that look like scans: too little text and mostly covered by images
+ * @param filePath Path to the PDF file
+ * @param pages Text layer of each page
+ * @returns Numbers of the scanned pages, in order
+ */
+export async function findScannedPages(filePath: string, pages: PdfPageText[]): Promise<number[]> {
+  const withoutText = pages.filter(page => needsOcr(page.text)).map(page => page.pageNumber);
+
+  if (withoutText.length === 0) {
+    return [];
+  }
+
+  const coverage = await measureImageCoverage(filePath, withoutText);
+  const scanned = withoutText.filter(pageNumber => (coverage.get(pageNumber) || 0) >= MIN_IMAGE_COVERAGE);
+
+  if (scanned.length < withoutText.length) {
+    logger.info(`${withoutText.length - scanned.length} pages with little text have no page-sized image and are not OCR'd`);
+  }
+
+  return scanned;
+}
+
+/**
+ * Recognise the text of PDF pages with OCR. Pages whose recognised text is
+ * still too short or below the confidence threshold are left out; a page that
+ * fails is reported in `failures` and the others are still read.
+ * @param filePath Path to the PDF file
+ * @param pageNumbers Pages to read, starting at 1
+ * @returns Recognised pages and the pages that failed
+ * @throws If OCR can't run at all, e.g. because the language data is missing
+ */
+export async function ocrPdfPages(filePath: string, pageNumbers: number[]): Promise<OcrResult> {
+  const { createWorker } = await import('tesseract.js');
+  const cachePath = storageSubdirectory(OCR_CACHE_DIR);
+
+  await mkdir(cachePath, { recursive: true });
+
+  // Languages are loaded after the worker starts: tesseract.js never settles createWorker() when loading them fails
+  const worker = await createWorker([], undefined, {
+    cachePath,
+    ...(process.env.OCR_LANG_PATH && { langPath: process.env.OCR_LANG_PATH }),
+    // Without a handler tesseract.js rethrows worker errors outside the pending promise, crashing the server
+    errorHandler: (error: unknown) => logger.warn('Tesseract worker error:', error),
+  });
+  const results: OcrPageText[] = [];
+  const failures: OcrPageFailure[] = [];
+  const fail = (pageNumber: number, error: unknown) => {
+    const message = error instanceof Error ? error.message : String(error);
+
+    logger.warn(`OCR failed on page ${pageNumber}:`, message);
+    failures.push({ pageNumber, error: message });
+  };
+
+  try {
+    await worker.reinitialize(OCR_LANGUAGE).catch(error => {
+      throw new Error(`Could not load OCR language data "${OCR_LANGUAGE}": ${error instanceof Error ? error.message : String(error)}`);
+    });
+
+    logger.info(`Running OCR (${OCR_LANGUAGE}) on ${pageNumbers.length} pages of ${filePath}`);
+
+    await renderPdfPages(filePath, pageNumbers, RENDER_SCALE, async (pageNumber, image) => {
+      let data: Awaited<ReturnType<typeof worker.recognize>>['data'];
+
+      try {
+        ({ data } = await worker.recognize(image));
+      } catch (recognizeError) {
+        fail(pageNumber, recognizeError);
+
+        return;
+      }
+
+      const text = data.text.replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+      if (needsOcr(text) || data.confidence < MIN_CONFIDENCE) {
+        logger.warn(`No usable text on page ${pageNumber} (confidence ${Math.round(data.confidence)})`);
+
+        return;
+      }
+
+      logger.info(`Page ${pageNumber}: ${text.length} characters, confidence ${Math.round(data.confidence)}`);
+      results.push({ pageNumber, text, confidence: data.confidence });
+    }, fail);
+  } finally {
+    await worker.terminate();
+  }
+
+  return { pages: results, failures };
+}
@@ -1,10 +1,33 @@
 import OpenAI from "openai";
+import { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import { join } from 'path';
-import { readdir, readFile } from 'fs/promises';
+import { readFile } from 'fs/promises';
+
+import { DEFAULT_FUSION_WEIGHTS, FusionWeights, hybridSearch } from './hybrid-search';
+import { VectorSearchFilter } from './vector-store';
+import { rerank, RerankMethod } from './reranker';
+import { createEmbeddingProvider } from './embedding-provider';
+import { CachedEmbeddingProvider, EmbeddingCacheReport } from './embedding-cache';
+import {
+  Conversation,
+  ConversationStore,
+  createConversation,
+  DEFAULT_HISTORY_TOKEN_BUDGET,
+  getConversationStore,
+  isValidConversationId,
+  trimToTokenBudget,
+} from './conversation-store';
 
 // Define the storage directory for documents
 const STORAGE_DIR = join(process.cwd(), 'storage', 'documents');
 
+const CHAT_MODEL = 'gpt-4-turbo-preview';
+
+// Per-request timeout for chat completions, well inside the 30s function limit
+const CHAT_TIMEOUT_MS = 20000;
+
+const EMPTY_ANSWER = "I received your message but couldn't generate a proper response. Please try again.";
+
 // Helper function to safely perform file operations
 const safeFileOperation = async <T>(operation: () => Promise<T>, fallback: T): Promise<T> => {
   try {
@@ -15,13 +38,26 @@ const safeFileOperation = async <T>(operation: () => Promise<T>, fallback: T): P
   }
 };
 
+/**
+ * Support assistant backed by chat completions. Message history is kept
+ * server-side in the conversation store, keyed by the thread ID the client
+ * sends back, and trimmed to a token budget before each request.
+ */
 export class OpenAIAssistant {
   private client: OpenAI;
-  private assistant: any;
-  private thread: any;
+  private embeddingProvider: CachedEmbeddingProvider;
+  private store: ConversationStore;
+  private instructions = '';
+  private conversation: Conversation | null = null;
+  private historyTokenBudget = DEFAULT_HISTORY_TOKEN_BUDGET;
   private useRAG: boolean;
+  private fusionWeights: FusionWeights = DEFAULT_FUSION_WEIGHTS;
+  private searchFilter?: VectorSearchFilter;
+  private rerankMethod?: RerankMethod;
+
+  constructor(apiKey: string, store: ConversationStore = getConversationStore()) {
+    this.store = store;
 
-  constructor(apiKey: string) {
     try {
       this.client = new OpenAI({ 
         apiKey, 
@@ -34,6 +70,8 @@ export class OpenAIAssistant {
         throw new Error('Failed to initialize OpenAI client');
       }
       
+      this.embeddingProvider = new CachedEmbeddingProvider(createEmbeddingProvider(undefined, { client: this.client }));
+      
       console.log('OpenAI client initialized successfully');
     } catch (error) {
       console.error('Error initializing OpenAI client:', error);
@@ -52,116 +90,53 @@ export class OpenAIAssistant {
 Be professional, accurate, and helpful. If you don't know the answer, say so clearly rather than making up information.`,
     existingThreadId: string | null = null
   ) {
-    try {
-      console.log("Creating OpenAI assistant");
-      // Create an assistant
-      this.assistant = await this.client.beta.assistants.create({
-        name: "Printform Support Assistant",
-        instructions,
-        tools: [],
-        model: "gpt-4-turbo-preview",
-      });
+    this.instructions = instructions;
+    this.conversation = null;
 
-      console.log("Creating or retrieving thread");
-      // Create a new thread or use existing one
-      if (existingThreadId) {
-        try {
-          // Try to retrieve the existing thread
-          this.thread = await this.client.beta.threads.retrieve(existingThreadId);
-          console.log("Retrieved existing thread:", existingThreadId);
-        } catch (threadError) {
-          console.warn("Could not retrieve thread, creating new one:", threadError);
-          this.thread = await this.client.beta.threads.create();
-        }
+    // Continue the stored conversation, or start a new one if it is unknown
+    if (isValidConversationId(existingThreadId)) {
+      this.conversation = await this.store.load(existingThreadId);
+
+      if (this.conversation) {
+        console.log(`Loaded conversation ${existingThreadId} with ${this.conversation.messages.length} messages`);
       } else {
-        // Create a new thread
-        this.thread = await this.client.beta.threads.create();
+        console.warn("Conversation not found, starting a new one:", existingThreadId);
       }
-      
-      console.log("Assistant initialized successfully with thread ID:", this.thread.id);
-    } catch (error) {
-      console.error("Error initializing OpenAI assistant:", error);
-      throw new Error(`Failed to initialize OpenAI assistant: ${error instanceof Error ? error.message : String(error)}`);
     }
-  }
 
-  // Create embedding for query
-  private async createEmbedding(text: string) {
-    const response = await this.client.embeddings.create({
-      model: 'text-embedding-ada-002',
-      input: text,
-    });
-    
-    return response.data[0].embedding;
+    if (!this.conversation) {
+      this.conversation = createConversation();
+    }
+
+    console.log("Assistant initialized with thread ID:", this.conversation.id);
   }
 
-  // Calculate cosine similarity between two vectors
-  private cosineSimilarity(vecA: number[], vecB: number[]): number {
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
-    
-    for (let i = 0; i < vecA.length; i++) {
-      dotProduct += vecA[i] * vecB[i];
-      normA += vecA[i] * vecA[i];
-      normB += vecB[i] * vecB[i];
+  // Forget the stored history of a conversation
+  async resetConversation(threadId: string): Promise<void> {
+    if (isValidConversationId(threadId)) {
+      await this.store.delete(threadId);
     }
-    
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
   }
 
-  // Find relevant chunks for a query
-  private async findRelevantChunks(queryEmbedding: number[], limit: number = 5) {
+  // Create embedding for query with the same provider the documents were embedded with
+  private async createEmbedding(text: string) {
+    return this.embeddingProvider.embed(text);
+  }
+
+  // Find relevant chunks for a query; search errors propagate, a failed rerank keeps the search order
+  private async findRelevantChunks(query: string, queryEmbedding: number[], limit: number = 5) {
+    const candidates = await hybridSearch(query, queryEmbedding, {
+      topK: limit * 4,
+      fusion: this.fusionWeights,
+      filter: this.searchFilter,
+      embeddingModel: this.embeddingProvider.model,
+    });
+
     try {
-      // Safely read directory, return empty array if it fails
-      const files = await safeFileOperation(
-        () => readdir(STORAGE_DIR),
-        []
-      );
-      
-      const jsonFiles = files.filter(file => file.endsWith('.json'));
-      let allChunks: any[] = [];
-      
-      // Load all chunks from all documents
-      for (const file of jsonFiles) {
-        try {
-          const content = await safeFileOperation(
-            () => readFile(join(STORAGE_DIR, file), 'utf-8'),
-            '{}'
-          );
-          
-          const data = JSON.parse(content);
-          if (data.chunks && Array.isArray(data.chunks)) {
-            allChunks = allChunks.concat(data.chunks);
-          }
-        } catch (fileError) {
-          console.error(`Error processing file ${file}:`, fileError);
-          // Continue with other files
-        }
-      }
-      
-      if (allChunks.length === 0) {
-        return [];
-      }
-      
-      // Calculate similarity for each chunk
-      const chunksWithSimilarity = allChunks.map(chunk => ({
-        ...chunk,
-        similarity: this.cosineSimilarity(queryEmbedding, chunk.embedding),
-      }));
-      
-      // Sort by similarity and take the top results
-      return chunksWithSimilarity
-        .sort((a, b) => b.similarity - a.similarity)
-        .slice(0, limit)
-        .map(chunk => ({
-          content: chunk.content,
-          metadata: chunk.metadata || {},
-          similarity: chunk.similarity,
-        }));
+      return await rerank(query, candidates, { topK: limit, method: this.rerankMethod, client: this.client });
     } catch (error) {
-      console.error("Error finding relevant chunks:", error);
-      return []; // Return empty array if there's an error
+      console.error("Error reranking chunks, using the search order:", error);
+      return candidates.slice(0, limit);
     }
   }
 
@@ -193,17 +168,18 @@ Be professional, accurate, and helpful. If you don't know the answer, say so cle
     throw lastError;
   }
 
-  async getResponse(userMessage: string): Promise<{ answer: string, threadId: string }> {
-    // Validate assistant and thread are initialized
-    if (!this.assistant) {
-      console.error("Assistant not initialized");
-      throw new Error("Assistant not initialized. Call initialize() first.");
-    }
-    
-    if (!this.thread) {
-      console.error("Thread not initialized");
-      throw new Error("Thread not initialized. Call initialize() first.");
+  private requireConversation(): Conversation {
+    if (!this.conversation) {
+      console.error("Conversation not initialized");
+      throw new Error("Conversation not initialized. Call initialize() first.");
     }
+
+    return this.conversation;
+  }
+
+  // Validate state, enrich the message with knowledge base context and build the prompt
+  private async buildMessages(userMessage: string): Promise<ChatCompletionMessageParam[]> {
+    const conversation = this.requireConversation();
     
     // Validate user message
     if (!userMessage || typeof userMessage !== 'string') {
@@ -211,200 +187,159 @@ Be professional, accurate, and helpful. If you don't know the answer, say so cle
       throw new Error("Invalid user message. Message must be a non-empty string.");
     }
     
-    console.log("Starting getResponse with message length:", userMessage.length);
-    console.log("Thread ID:", this.thread.id);
+    console.log("Preparing user message with length:", userMessage.length);
+    console.log("Thread ID:", conversation.id);
 
-    try {
-      console.log("Processing with RAG if available");
-      
-      let enhancedMessage = userMessage;
-      
-      // If RAG is enabled, try to enhance the message with relevant context
-      if (this.useRAG) {
+    console.log("Processing with RAG if available");
+    
+    let enhancedMessage = userMessage;
+    let queryEmbedding: number[] | null = null;
+    
+    // If RAG is enabled, try to enhance the message with relevant context
+    if (this.useRAG) {
+      try {
+        console.log("RAG is enabled, attempting to find relevant context");
+        
+        // Try to read static documents first as a fallback
         try {
-          console.log("RAG is enabled, attempting to find relevant context");
+          // Read static documents from storage/documents directory
+          const staticDocs = ['printform_info.txt', 'mcloud_info.txt'];
+          let staticContext = '';
           
-          // Try to read static documents first as a fallback
-          try {
-            // Read static documents from storage/documents directory
-            const staticDocs = ['printform_info.txt', 'mcloud_info.txt'];
-            let staticContext = '';
-            
-            for (const docName of staticDocs) {
-              try {
-                const docPath = join(STORAGE_DIR, docName);
-                const content = await safeFileOperation(
-                  () => readFile(docPath, 'utf-8'),
-                  ''
-                );
-                
-                if (content) {
-                  staticContext += content + '\n\n';
-                }
-              } catch (docError) {
-                console.warn(`Could not read static document ${docName}:`, docError);
-                // Continue with other documents
+          for (const docName of staticDocs) {
+            try {
+              const docPath = join(STORAGE_DIR, docName);
+              const content = await safeFileOperation(
+                () => readFile(docPath, 'utf-8'),
+                ''
+              );
+              
+              if (content) {
+                staticContext += content + '\n\n';
               }
+            } catch (docError) {
+              console.warn(`Could not read static document ${docName}:`, docError);
+              // Continue with other documents
             }
-            
-            if (staticContext) {
-              console.log("Using static context documents");
-              // Enhance the message with static context
-              enhancedMessage = `
+          }
+          
+          if (staticContext) {
+            console.log("Using static context documents");
+            // Enhance the message with static context
+            enhancedMessage = `
 I have a question: ${userMessage}
 
 Here is some relevant information that might help you answer:
 ${staticContext}
 
 Please use this information to provide an accurate and helpful response to my question.`;
-              
-              // Skip the more complex embedding-based RAG
-              console.log("Using static context instead of embedding-based RAG");
-              // Continue with the rest of the function instead of returning early
-            }
-          } catch (staticDocError) {
-            console.warn("Error reading static documents:", staticDocError);
-            // Continue with embedding-based RAG
-          }
-          
-          // Only try embedding-based RAG if static documents failed
-          console.log("Attempting embedding-based RAG");
-          
-          // Create embedding for the query with retry
-          const queryEmbedding = await this.withRetry(() => 
-            this.createEmbedding(userMessage)
-          );
-          
-          // Find relevant chunks
-          const relevantChunks = await this.findRelevantChunks(queryEmbedding);
-          
-          if (relevantChunks.length > 0) {
-            console.log(`Found ${relevantChunks.length} relevant chunks`);
-            // Prepare context from relevant chunks
-            const context = relevantChunks
-              .map(chunk => chunk.content)
-              .join('\n\n');
             
-            // Enhance the message with context
-            enhancedMessage = `
+            // Skip the more complex embedding-based RAG
+            console.log("Using static context instead of embedding-based RAG");
+            // Continue with the rest of the function instead of returning early
+          }
+        } catch (staticDocError) {
+          console.warn("Error reading static documents:", staticDocError);
+          // Continue with embedding-based RAG
+        }
+        
+        // Only try embedding-based RAG if static documents failed
+        console.log("Attempting embedding-based RAG");
+        
+        // Create embedding for the query with retry
+        queryEmbedding = await this.withRetry(() => 
+          this.createEmbedding(userMessage)
+        );
+      } catch (ragError) {
+        console.error("Error in RAG processing:", ragError);
+        console.error("RAG error stack:", ragError instanceof Error ? ragError.stack : '');
+        // Continue with original message if RAG fails
+        console.log("Continuing with original message due to RAG error");
+      }
+    } else {
+      console.log("RAG is disabled");
+    }
+
+    // Outside the try above: a broken index or a storage outage fails the request instead of passing as "nothing relevant"
+    if (queryEmbedding) {
+      const relevantChunks = await this.findRelevantChunks(userMessage, queryEmbedding);
+      
+      if (relevantChunks.length > 0) {
+        console.log(`Found ${relevantChunks.length} relevant chunks`);
+        // Prepare context from relevant chunks, each under the section it came from
+        const context = relevantChunks
+          .map(chunk => (chunk.metadata?.headingPath ? `${chunk.metadata.headingPath}\n${chunk.content}` : chunk.content))
+          .join('\n\n');
+        
+        // Enhance the message with context
+        enhancedMessage = `
 I have a question: ${userMessage}
 
 Here is some relevant information that might help you answer:
 ${context}
 
 Please use this information to provide an accurate and helpful response to my question.`;
-          } else {
-            console.log("No relevant chunks found");
-          }
-        } catch (ragError) {
-          console.error("Error in RAG processing:", ragError);
-          console.error("RAG error stack:", ragError instanceof Error ? ragError.stack : '');
-          // Continue with original message if RAG fails
-          console.log("Continuing with original message due to RAG error");
-        }
       } else {
-        console.log("RAG is disabled");
+        console.log("No relevant chunks found");
       }
+    }
 
-      console.log("Adding user message to thread");
-      // Add user message to thread with retry
-      await this.withRetry(() => 
-        this.client.beta.threads.messages.create(this.thread.id, {
-          role: "user",
-          content: enhancedMessage,
-        })
-      );
+    // Earlier turns are stored without their retrieved context, so only the
+    // current question carries it and the history stays small
+    const history = trimToTokenBudget(conversation.messages, this.historyTokenBudget);
 
-      console.log("Creating and running assistant");
-      
-      // Create a run with a shorter timeout (20 seconds) for Netlify compatibility
-      const run = await this.withRetry(async () => {
-        // Set a timeout for the OpenAI API call (20 seconds)
-        const timeoutPromise = new Promise<never>((_, reject) => {
-          setTimeout(() => reject(new Error("OpenAI API request timed out after 20 seconds")), 20000);
-        });
-        
-        try {
-          // Create the run
-          const runOperation = this.client.beta.threads.runs.create(
-            this.thread.id,
-            { assistant_id: this.assistant.id }
-          );
-          
-          // Race the API call against the timeout
-          return await Promise.race([runOperation, timeoutPromise]);
-        } catch (error) {
-          console.error("Error creating run:", error);
-          throw error;
-        }
-      });
-      
-      console.log(`Run created with ID: ${run.id}, status: ${run.status}`);
-      
-      // Poll for completion with timeout and retry - reduced polling for Netlify
-      const completedRun = await this.withRetry(async () => {
-        let currentRun = run;
-        let attempts = 0;
-        const maxAttempts = 10; // Reduced from 30 to avoid timeouts
-        
-        while (
-          currentRun.status !== "completed" && 
-          currentRun.status !== "failed" && 
-          currentRun.status !== "cancelled" && 
-          attempts < maxAttempts
-        ) {
-          // Wait between polling attempts (increasing delay)
-          const delay = Math.min(500 * Math.pow(1.3, attempts), 2000); // Reduced delays
-          await new Promise(resolve => setTimeout(resolve, delay));
-          
-          // Get the updated run status
-          currentRun = await this.client.beta.threads.runs.retrieve(
-            this.thread.id,
-            currentRun.id
-          );
-          
-          console.log(`Run status (attempt ${attempts+1}/${maxAttempts}): ${currentRun.status}`);
-          attempts++;
-        }
-        
-        if (currentRun.status !== "completed") {
-          throw new Error(`Run did not complete successfully. Final status: ${currentRun.status}`);
-        }
-        
-        return currentRun;
-      });
+    console.log(`Sending ${history.length} of ${conversation.messages.length} earlier messages`);
 
-      if (completedRun.status === "completed") {
-        console.log("Run completed, fetching messages");
-        // Get the assistant's response with retry
-        const messages = await this.withRetry(() => 
-          this.client.beta.threads.messages.list(this.thread.id)
-        );
+    return [
+      { role: "system", content: this.instructions },
+      ...history,
+      { role: "user", content: enhancedMessage },
+    ];
+  }
 
-        // Get the latest assistant message
-        const lastMessage = messages.data.filter(
-          (msg) => msg.role === "assistant"
-        )[0];
+  // Append the exchange to the conversation and persist it
+  private async recordTurn(conversation: Conversation, userMessage: string, answer: string): Promise<void> {
+    conversation.messages.push(
+      { role: "user", content: userMessage },
+      { role: "assistant", content: answer }
+    );
+    await this.store.save(conversation);
+  }
+
+  async getResponse(userMessage: string): Promise<{ answer: string, threadId: string }> {
+    try {
+      const messages = await this.buildMessages(userMessage);
+      const conversation = this.requireConversation();
+
+      console.log("Requesting chat completion");
+      const completion = await this.withRetry(() =>
+        this.client.chat.completions.create(
+          {
+            model: CHAT_MODEL,
+            messages,
+            temperature: 0.5,
+          },
+          { timeout: CHAT_TIMEOUT_MS, maxRetries: 0 }
+        )
+      );
+
+      const answer = completion.choices[0]?.message?.content;
+
+      if (!answer) {
+        console.error("No valid message content found in the response");
 
-        if (lastMessage && lastMessage.content[0].type === "text") {
-          return {
-            answer: lastMessage.content[0].text.value,
-            threadId: this.thread.id
-          };
-        } else {
-          console.error("No valid message content found in the response");
-          return {
-            answer: "I received your message but couldn't generate a proper response. Please try again.",
-            threadId: this.thread.id
-          };
-        }
-      } else {
-        console.error("Run not completed, status:", completedRun.status);
         return {
-          answer: `Sorry, I couldn't complete processing your request. Status: ${completedRun.status}`,
-          threadId: this.thread.id
+          answer: EMPTY_ANSWER,
+          threadId: conversation.id
         };
       }
+
+      await this.recordTurn(conversation, userMessage, answer);
+
+      return {
+        answer,
+        threadId: conversation.id
+      };
     } catch (error) {
       console.error("Error in OpenAI assistant getResponse:", error);
       
@@ -421,8 +356,77 @@ Please use this information to provide an accurate and helpful response to my qu
     }
   }
   
+  /**
+   * Stream the assistant's reply, calling onToken for each piece of text as it
+   * arrives instead of waiting for the whole completion.
+   */
+  async streamResponse(
+    userMessage: string,
+    onToken: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ answer: string, threadId: string }> {
+    const messages = await this.buildMessages(userMessage);
+    const conversation = this.requireConversation();
+
+    console.log("Streaming chat completion");
+    const stream = await this.client.chat.completions.create(
+      {
+        model: CHAT_MODEL,
+        messages,
+        temperature: 0.5,
+        stream: true,
+      },
+      { signal }
+    );
+
+    let answer = '';
+
+    for await (const part of stream) {
+      const text = part.choices[0]?.delta?.content;
+
+      if (text) {
+        answer += text;
+        onToken(text);
+      }
+    }
+
+    if (answer) {
+      await this.recordTurn(conversation, userMessage, answer);
+    }
+
+    return {
+      answer: answer || EMPTY_ANSWER,
+      threadId: conversation.id
+    };
+  }
+  
+  // Embedding cache hits and misses of this instance, for debug info
+  getEmbeddingCacheStats(): EmbeddingCacheReport {
+    return this.embeddingProvider.cacheStats();
+  }
+  
   // Toggle RAG functionality
   setUseRAG(useRAG: boolean): void {
     this.useRAG = useRAG;
   }
+
+  // Set how many tokens of earlier turns are sent with each question
+  setHistoryTokenBudget(budget: number): void {
+    this.historyTokenBudget = budget;
+  }
+
+  // Set the weights used to fuse embedding and keyword rankings
+  setFusionWeights(fusionWeights: FusionWeights): void {
+    this.fusionWeights = fusionWeights;
+  }
+
+  // Restrict retrieval to matching documents (undefined searches everything)
+  setSearchFilter(filter?: VectorSearchFilter): void {
+    this.searchFilter = filter;
+  }
+
+  // Choose how retrieved chunks are reranked (undefined uses KNOWLEDGE_RERANK)
+  setRerankMethod(rerankMethod?: RerankMethod): void {
+    this.rerankMethod = rerankMethod;
+  }
 }
\ No newline at end of file
@@ -1,6 +1,31 @@
 import fs from 'fs/promises';
 import path from 'path';
 import pdfParse from 'pdf-parse';
+import { getDocument, OPS } from 'pdfjs-dist/legacy/build/pdf';
+
+// Text of one PDF page; page numbers start at 1
+export interface PdfPageText {
+  pageNumber: number;
+  text: string;
+}
+
+// Positioned text run, as returned by pdfjs getTextContent()
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+  hasEOL?: boolean;
+}
+
+// Operators that paint one image into the unit square of the current transform
+const IMAGE_OPERATORS = new Set([
+  OPS.paintImageXObject,
+  OPS.paintInlineImageXObject,
+  OPS.paintJpegXObject,
+  OPS.paintImageMaskXObject,
+  OPS.paintSolidColorImageMask,
+]);
 
 // Helper function to safely perform file operations
 const safeFileOperation = async <T>(operation: () => Promise<T>, fallback: T): Promise<T> => {
@@ -15,74 +40,255 @@ const safeFileOperation = async <T>(operation: () => Promise<T>, fallback: T): P
 /**
  * Extract text from a PDF file
  * @param filePath Path to the PDF file
- * @returns Extracted text content
+ * @returns Extracted text content; empty if the PDF has no text layer (e.g. a scan)
+ * @throws If the file can't be read or parsed
  */
 export async function extractTextFromPDF(filePath: string): Promise<string> {
+  console.log(`[PDF-EXTRACT] Starting extraction from PDF: ${filePath}`);
+  console.log(`[PDF-EXTRACT] Current working directory: ${process.cwd()}`);
+  console.log(`[PDF-EXTRACT] Environment: NODE_ENV=${process.env.NODE_ENV}, NETLIFY=${process.env.NETLIFY || 'not set'}`);
+  console.log(`[PDF-EXTRACT] Global storage dir: ${global.STORAGE_DIR || 'not set'}`);
+  
+  // Verify the file exists first
   try {
-    console.log(`[PDF-EXTRACT] Starting extraction from PDF: ${filePath}`);
-    console.log(`[PDF-EXTRACT] Current working directory: ${process.cwd()}`);
-    console.log(`[PDF-EXTRACT] Environment: NODE_ENV=${process.env.NODE_ENV}, NETLIFY=${process.env.NETLIFY || 'not set'}`);
-    console.log(`[PDF-EXTRACT] Global storage dir: ${global.STORAGE_DIR || 'not set'}`);
+    console.log(`[PDF-EXTRACT] Checking if file exists: ${filePath}`);
+    const fileStats = await fs.stat(filePath);
+    console.log(`[PDF-EXTRACT] PDF file exists, size: ${fileStats.size} bytes, isFile: ${fileStats.isFile()}, mode: ${fileStats.mode.toString(8)}`);
+  } catch (statError) {
+    console.error(`[PDF-EXTRACT] PDF file does not exist or is not accessible: ${filePath}`, statError);
+    throw new Error(`PDF file does not exist or is not accessible: ${statError instanceof Error ? statError.message : String(statError)}`);
+  }
+  
+  // Read the PDF file with safe operation
+  console.log(`[PDF-EXTRACT] Attempting to read file: ${filePath}`);
+  const dataBuffer = await safeFileOperation(
+    () => fs.readFile(filePath),
+    Buffer.from([]) // Empty buffer as fallback
+  );
+  
+  console.log(`[PDF-EXTRACT] PDF file read attempt completed, buffer size: ${dataBuffer.length} bytes`);
+  
+  // Check if the buffer is valid
+  if (!dataBuffer || dataBuffer.length === 0) {
+    console.error('[PDF-EXTRACT] PDF file is empty or could not be read');
+    throw new Error('PDF file could not be read. The file may be empty or inaccessible.');
+  }
+  
+  try {
+    console.log('[PDF-EXTRACT] Starting PDF parsing...');
+    const data = await pdfParse(dataBuffer, {
+      max: 0, // 0 = no limit
+    });
     
-    // Verify the file exists first
-    try {
-      console.log(`[PDF-EXTRACT] Checking if file exists: ${filePath}`);
-      const fileStats = await fs.stat(filePath);
-      console.log(`[PDF-EXTRACT] PDF file exists, size: ${fileStats.size} bytes, isFile: ${fileStats.isFile()}, mode: ${fileStats.mode.toString(8)}`);
-      
-      if (fileStats.size === 0) {
-        console.error('[PDF-EXTRACT] PDF file exists but is empty (0 bytes)');
-        return 'PDF file is empty (0 bytes).';
+    console.log(`[PDF-EXTRACT] PDF parsed successfully, extracted ${data.text.length} characters`);
+    console.log(`[PDF-EXTRACT] PDF info - Version: ${data.info?.PDFFormatVersion || 'unknown'}, Pages: ${data.numpages || 0}`);
+    
+    return data.text || '';
+  } catch (parseError) {
+    console.error('[PDF-EXTRACT] PDF parsing error:', parseError);
+    throw new Error(`PDF parsing failed: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+  }
+}
+
+/**
+ * Rebuild the lines of a page from its positioned text runs. A larger vertical
+ * gap than usual becomes a blank line (a paragraph break), and a wide
+ * horizontal gap becomes several spaces so table columns stay apart.
+ */
+function pageTextFromItems(items: PdfTextItem[]): string {
+  const lines: string[] = [];
+  let line = '';
+  let lineY: number | null = null;
+  let lineHeight = 0;
+  let lineEnd = 0;
+
+  for (const item of items) {
+    if (!item.str) {
+      continue;
+    }
+
+    const [, , , , x, y] = item.transform;
+
+    if (lineY !== null && Math.abs(y - lineY) > 2) {
+      lines.push(line.trimEnd());
+
+      // More than about one and a half lines down: a new paragraph
+      if (lineY - y > Math.max(lineHeight, 8) * 1.5) {
+        lines.push('');
       }
-    } catch (statError) {
-      console.error(`[PDF-EXTRACT] PDF file does not exist or is not accessible: ${filePath}`, statError);
-      console.error(`[PDF-EXTRACT] Error details: ${statError instanceof Error ? statError.message : String(statError)}`);
-      console.error(`[PDF-EXTRACT] Error stack: ${statError instanceof Error ? statError.stack : 'No stack trace'}`);
-      return `PDF file does not exist or is not accessible: ${statError instanceof Error ? statError.message : String(statError)}`;
+
+      line = '';
+      lineHeight = 0;
+    } else if (lineY !== null && x - lineEnd > Math.max(item.height, 8) * 1.5) {
+      line += '   ';
     }
-    
-    // Read the PDF file with safe operation
-    console.log(`[PDF-EXTRACT] Attempting to read file: ${filePath}`);
-    const dataBuffer = await safeFileOperation(
-      () => fs.readFile(filePath),
-      Buffer.from([]) // Empty buffer as fallback
-    );
-    
-    console.log(`[PDF-EXTRACT] PDF file read attempt completed, buffer size: ${dataBuffer.length} bytes`);
-    console.log(`[PDF-EXTRACT] Buffer valid: ${dataBuffer && dataBuffer.length > 0 ? 'Yes' : 'No'}`);
-    
-    // Check if the buffer is valid
-    if (!dataBuffer || dataBuffer.length === 0) {
-      console.error('[PDF-EXTRACT] PDF file is empty or could not be read');
-      return 'PDF file could not be read. The file may be empty or inaccessible.';
+
+    line += item.str;
+    lineY = y;
+    lineHeight = Math.max(lineHeight, item.height);
+    lineEnd = x + item.width;
+  }
+
+  lines.push(line.trimEnd());
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+/**
+ * Extract the text of every page of a PDF with pdfjs, so chunks can record the
+ * pages they came from. Pages without text (e.g. scans) are returned empty.
+ * @param filePath Path to the PDF file
+ * @returns One entry per page, in order
+ */
+export async function extractPagesFromPDF(filePath: string): Promise<PdfPageText[]> {
+  const data = new Uint8Array(await fs.readFile(filePath));
+  const document = await getDocument({ data, useSystemFonts: true, isEvalSupported: false }).promise;
+  const pages: PdfPageText[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+
+      pages.push({ pageNumber, text: pageTextFromItems(content.items as PdfTextItem[]) });
+      page.cleanup();
     }
-    
-    try {
-      // Parse the PDF with a timeout
-      console.log('[PDF-EXTRACT] Starting PDF parsing...');
-      const data = await pdfParse(dataBuffer, {
-        // Add options if needed
-        max: 0, // 0 = no limit
+  } finally {
+    await document.destroy();
+  }
+
+  console.log(`[PDF-EXTRACT] Extracted ${pages.length} pages from ${filePath}`);
+
+  return pages;
+}
+
+/**
+ * Measure how much of each page is covered by images. A scanned page is one
+ * image the size of the page; a logo or a diagram next to text covers less.
+ * @param filePath Path to the PDF file
+ * @param pageNumbers Pages to measure, starting at 1
+ * @returns Share of each page's area covered by images, from 0 to 1
+ */
+export async function measureImageCoverage(filePath: string, pageNumbers: number[]): Promise<Map<number, number>> {
+  const data = new Uint8Array(await fs.readFile(filePath));
+  const document = await getDocument({ data, useSystemFonts: true, isEvalSupported: false }).promise;
+  const coverage = new Map<number, number>();
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      const page = await document.getPage(pageNumber);
+      const { fnArray, argsArray } = await page.getOperatorList();
+      const [x1, y1, x2, y2] = page.view;
+      const pageArea = Math.abs((x2 - x1) * (y2 - y1));
+      // Only areas matter, so the transform is tracked by its determinant
+      const saved: number[] = [];
+      let scale = 1;
+      let imageArea = 0;
+
+      fnArray.forEach((operator, index) => {
+        const args = argsArray[index];
+
+        if (operator === OPS.save) {
+          saved.push(scale);
+        } else if (operator === OPS.restore) {
+          scale = saved.pop() ?? scale;
+        } else if (operator === OPS.transform) {
+          scale *= args[0] * args[3] - args[1] * args[2];
+        } else if (operator === OPS.paintFormXObjectBegin) {
+          saved.push(scale);
+
+          if (Array.isArray(args?.[0])) {
+            scale *= args[0][0] * args[0][3] - args[0][1] * args[0][2];
+          }
+        } else if (operator === OPS.paintFormXObjectEnd) {
+          scale = saved.pop() ?? scale;
+        } else if (IMAGE_OPERATORS.has(operator)) {
+          imageArea += Math.abs(scale);
+        }
       });
-      
-      console.log(`[PDF-EXTRACT] PDF parsed successfully, extracted ${data.text.length} characters`);
-      console.log(`[PDF-EXTRACT] PDF info - Version: ${data.info?.PDFFormatVersion || 'unknown'}, Pages: ${data.numpages || 0}`);
-      
-      // Return the text content
-      return data.text || 'No text content found in PDF';
-    } catch (parseError) {
-      console.error('[PDF-EXTRACT] PDF parsing error:', parseError);
-      console.error(`[PDF-EXTRACT] Parse error details: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
-      console.error(`[PDF-EXTRACT] Parse error stack: ${parseError instanceof Error ? parseError.stack : 'No stack trace'}`);
-      // Fallback: Return a message that can be processed
-      return `[PDF EXTRACTION FAILED: ${parseError instanceof Error ? parseError.message : String(parseError)}]`;
+
+      coverage.set(pageNumber, pageArea > 0 ? Math.min(imageArea / pageArea, 1) : 0);
+      page.cleanup();
     }
-  } catch (error) {
-    console.error(`[PDF-EXTRACT] Unhandled error extracting text from PDF ${filePath}:`, error);
-    console.error(`[PDF-EXTRACT] Error details: ${error instanceof Error ? error.message : String(error)}`);
-    console.error(`[PDF-EXTRACT] Error stack: ${error instanceof Error ? error.stack : 'No stack trace'}`);
-    // Return a fallback message instead of throwing
-    return `Error extracting text from PDF: ${error instanceof Error ? error.message : String(error)}`;
+  } finally {
+    await document.destroy();
+  }
+
+  return coverage;
+}
+
+// Canvases for pdfjs backed by @napi-rs/canvas, which ships prebuilt binaries
+class NodeCanvasFactory {
+  constructor(private readonly createCanvas: typeof import('@napi-rs/canvas').createCanvas) {}
+
+  create(width: number, height: number) {
+    const canvas = this.createCanvas(width, height);
+
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(target: { canvas: { width: number; height: number } }, width: number, height: number) {
+    target.canvas.width = width;
+    target.canvas.height = height;
+  }
+
+  destroy(target: { canvas: { width: number; height: number } }) {
+    target.canvas.width = 0;
+    target.canvas.height = 0;
+  }
+}
+
+/**
+ * Render pages of a PDF to PNG images, one page at a time so only one image
+ * is held in memory
+ * @param filePath Path to the PDF file
+ * @param pageNumbers Pages to render, starting at 1
+ * @param scale Zoom factor; 1 is 72 DPI
+ * @param onPage Called with each rendered page before the next one is rendered
+ * @param onPageError When given, a page that can't be rendered is reported here and skipped instead of stopping the rest
+ */
+export async function renderPdfPages(
+  filePath: string,
+  pageNumbers: number[],
+  scale: number,
+  onPage: (pageNumber: number, image: Buffer) => Promise<void>,
+  onPageError?: (pageNumber: number, error: unknown) => void
+): Promise<void> {
+  const { createCanvas } = await import('@napi-rs/canvas');
+  const canvasFactory = new NodeCanvasFactory(createCanvas);
+  const data = new Uint8Array(await fs.readFile(filePath));
+  // Without font loading in Node, glyphs are drawn as paths
+  const document = await getDocument({ data, disableFontFace: true, isEvalSupported: false }).promise;
+
+  try {
+    for (const pageNumber of pageNumbers) {
+      let image: Buffer;
+
+      try {
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale });
+        const { canvas, context } = canvasFactory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+        // Scans are often transparent where the paper is; OCR needs a white page
+        context.fillStyle = '#ffffff';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        await page.render({ canvasContext: context, viewport, canvasFactory }).promise;
+        page.cleanup();
+        image = canvas.toBuffer('image/png');
+        canvasFactory.destroy({ canvas });
+      } catch (renderError) {
+        if (!onPageError) {
+          throw renderError;
+        }
+
+        onPageError(pageNumber, renderError);
+        continue;
+      }
+
+      await onPage(pageNumber, image);
+    }
+  } finally {
+    await document.destroy();
   }
 }
 
@@ -0,0 +1,235 @@
+import createLogger from './logger';
+import { getBlobStorage, JOBS_DIR_NAME, readJsonBlob, writeJsonBlob } from './blob-storage';
+import { EmbeddingProvider } from './embedding-provider';
+import { documentEmbeddingModel, DocumentMetadata, getVectorStore, VectorStore } from './vector-store';
+
+// Create a logger for this module
+const logger = createLogger('REEMBED');
+
+/**
+ * Migrates every document to a new embedding model from the stored chunk text.
+ *
+ * Progress is written to `.jobs/reembed.json` in the blob storage after every
+ * batch, and the vectors of a half-finished document are checkpointed next to
+ * it, so a job interrupted by a restart resumes where it stopped when started
+ * again.
+ */
+
+export type ReembedStatus = 'running' | 'completed' | 'failed' | 'interrupted';
+
+export interface ReembedProgress {
+  status: ReembedStatus;
+  provider: string;
+  model: string;
+  totalDocuments: number;
+  completedDocuments: number;
+  totalChunks: number;
+  embeddedChunks: number;
+  currentDocumentId?: string;
+  failedDocuments: Array<{ documentId: string; error: string }>;
+  startedAt: string;
+  updatedAt: string;
+  completedAt?: string;
+  error?: string;
+}
+
+// Vectors of a partly re-embedded document
+interface ReembedCheckpoint {
+  documentId: string;
+  model: string;
+  embeddings: number[][];
+}
+
+// Chunks embedded per provider call (and per checkpoint)
+const REEMBED_BATCH_SIZE = 16;
+
+const PROGRESS_KEY = `${JOBS_DIR_NAME}/reembed.json`;
+
+function checkpointKey(documentId: string): string {
+  return `${JOBS_DIR_NAME}/reembed-${documentId.replace(/[^A-Za-z0-9_-]+/g, '_')}.json`;
+}
+
+async function readJson<T>(key: string): Promise<T | null> {
+  try {
+    return await readJsonBlob<T>(getBlobStorage(), key);
+  } catch {
+    return null;
+  }
+}
+
+async function writeJson(key: string, data: unknown): Promise<void> {
+  await writeJsonBlob(getBlobStorage(), key, data);
+}
+
+// Whether a document still needs embedding with the target provider
+export function needsReembedding(metadata: DocumentMetadata, provider: EmbeddingProvider): boolean {
+  return documentEmbeddingModel(metadata) !== provider.model ||
+    (!!metadata.embeddingDimensions && metadata.embeddingDimensions !== provider.dimensions);
+}
+
+// The job running in this server process, if any
+let activeJob: { progress: ReembedProgress; promise: Promise<ReembedProgress> } | null = null;
+
+async function saveProgress(progress: ReembedProgress): Promise<void> {
+  progress.updatedAt = new Date().toISOString();
+
+  try {
+    await writeJson(PROGRESS_KEY, progress);
+  } catch (error) {
+    logger.warn('Could not persist re-embed progress:', error);
+  }
+}
+
+// Re-embed one document, resuming from its checkpoint when there is one
+async function reembedDocument(
+  documentId: string,
+  provider: EmbeddingProvider,
+  store: VectorStore,
+  progress: ReembedProgress
+): Promise<void> {
+  const document = await store.getDocument(documentId);
+
+  if (!document) {
+    throw new Error('Document no longer exists');
+  }
+
+  const checkpoint = await readJson<ReembedCheckpoint>(checkpointKey(documentId));
+  const embeddings =
+    checkpoint && checkpoint.model === provider.model && checkpoint.documentId === documentId ? checkpoint.embeddings : [];
+
+  if (embeddings.length > 0) {
+    logger.info(`Resuming ${documentId} at chunk ${embeddings.length}/${document.chunks.length}`);
+    progress.embeddedChunks += embeddings.length;
+  }
+
+  while (embeddings.length < document.chunks.length) {
+    const batch = document.chunks.slice(embeddings.length, embeddings.length + REEMBED_BATCH_SIZE);
+
+    embeddings.push(...await provider.embedBatch(batch.map(chunk => chunk.content || '')));
+    progress.embeddedChunks += batch.length;
+    await writeJson(checkpointKey(documentId), { documentId, model: provider.model, embeddings });
+    await saveProgress(progress);
+  }
+
+  await store.upsert({
+    metadata: {
+      ...document.metadata,
+      embeddingModel: provider.model,
+      embeddingDimensions: embeddings[0]?.length || provider.dimensions,
+      reembeddedAt: new Date().toISOString(),
+    },
+    chunks: document.chunks.map((chunk, index) => ({ ...chunk, embedding: embeddings[index] })),
+  });
+  await getBlobStorage().delete(checkpointKey(documentId)).catch(() => undefined);
+}
+
+async function runReembedJob(
+  provider: EmbeddingProvider,
+  store: VectorStore,
+  progress: ReembedProgress
+): Promise<ReembedProgress> {
+  try {
+    const documents = await store.listDocuments();
+    const pending = documents.filter(metadata => needsReembedding(metadata, provider));
+
+    // Documents already on the target model (e.g. from an earlier, interrupted run) count as done
+    progress.totalDocuments = documents.length;
+    progress.completedDocuments = documents.length - pending.length;
+    progress.totalChunks = pending.reduce((sum, metadata) => sum + (metadata.chunks || 0), 0);
+    logger.info(`Re-embedding ${pending.length}/${documents.length} documents with ${provider.model}`);
+    await saveProgress(progress);
+
+    for (const metadata of pending) {
+      progress.currentDocumentId = metadata.id;
+      await saveProgress(progress);
+
+      try {
+        await reembedDocument(metadata.id, provider, store, progress);
+        progress.completedDocuments++;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        logger.error(`Failed to re-embed ${metadata.id}:`, message);
+        progress.failedDocuments.push({ documentId: metadata.id, error: message });
+      }
+    }
+
+    progress.currentDocumentId = undefined;
+    progress.status = progress.failedDocuments.length > 0 ? 'failed' : 'completed';
+
+    if (progress.failedDocuments.length > 0) {
+      progress.error = `${progress.failedDocuments.length} documents could not be re-embedded; start the job again to retry them`;
+    }
+  } catch (error) {
+    progress.status = 'failed';
+    progress.error = error instanceof Error ? error.message : String(error);
+    logger.error('Re-embed job failed:', progress.error);
+  }
+
+  progress.completedAt = new Date().toISOString();
+  await saveProgress(progress);
+  logger.info(`Re-embed job ${progress.status}: ${progress.completedDocuments}/${progress.totalDocuments} documents`);
+
+  return progress;
+}
+
+/**
+ * Progress of the current or most recent job. A job recorded as running that
+ * isn't running in this process was cut off by a restart and is reported as
+ * interrupted.
+ */
+export async function getReembedProgress(): Promise<ReembedProgress | null> {
+  if (activeJob) {
+    return activeJob.progress;
+  }
+
+  const progress = await readJson<ReembedProgress>(PROGRESS_KEY);
+
+  if (progress && progress.status === 'running') {
+    progress.status = 'interrupted';
+  }
+
+  return progress;
+}
+
+/**
+ * Start migrating the knowledge base to the given provider's model in the
+ * background. Throws if a job for a different model is already running; starting
+ * the same model again returns the running job.
+ */
+export function startReembedJob(
+  provider: EmbeddingProvider,
+  store: VectorStore = getVectorStore()
+): { progress: ReembedProgress; promise: Promise<ReembedProgress> } {
+  if (activeJob) {
+    if (activeJob.progress.model !== provider.model) {
+      throw new Error(`A re-embed job for ${activeJob.progress.model} is already running`);
+    }
+
+    return activeJob;
+  }
+
+  const now = new Date().toISOString();
+  const progress: ReembedProgress = {
+    status: 'running',
+    provider: provider.name,
+    model: provider.model,
+    totalDocuments: 0,
+    completedDocuments: 0,
+    totalChunks: 0,
+    embeddedChunks: 0,
+    failedDocuments: [],
+    startedAt: now,
+    updatedAt: now,
+  };
+  const job = {
+    progress,
+    promise: runReembedJob(provider, store, progress).finally(() => {
+      activeJob = null;
+    }),
+  };
+
+  activeJob = job;
+
+  return job;
+}
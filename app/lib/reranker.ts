@@ -0,0 +1,251 @@
+import OpenAI from 'openai';
+
+import createLogger from './logger';
+import { tokenize } from './bm25-index';
+import { VectorSearchResult } from './vector-store';
+
+// Create a logger for this module
+const logger = createLogger('RERANKER');
+
+// 'llm' scores passages with a chat model, 'heuristic' uses local term overlap
+// and 'none' keeps the retrieval order
+export type RerankMethod = 'llm' | 'heuristic' | 'none';
+
+export interface RerankOptions {
+  method?: RerankMethod;
+  topK?: number;
+  // Trade-off between relevance (1) and diversity (0) for MMR
+  mmrLambda?: number;
+  client?: OpenAI;
+  model?: string;
+}
+
+export const DEFAULT_RERANK_MODEL = process.env.KNOWLEDGE_RERANK_MODEL || 'gpt-3.5-turbo';
+export const DEFAULT_MMR_LAMBDA = 0.7;
+
+const RERANK_METHODS: RerankMethod[] = ['llm', 'heuristic', 'none'];
+const RERANK_TIMEOUT = 8000;
+// Passages are truncated so the scoring prompt stays small
+const MAX_PASSAGE_LENGTH = 800;
+
+/**
+ * Validate a rerank method coming from a request body or the environment.
+ * Unknown values return undefined so the caller's default applies.
+ */
+export function parseRerankMethod(input: any): RerankMethod | undefined {
+  return RERANK_METHODS.includes(input) ? input : undefined;
+}
+
+// Jaccard overlap of two term sets
+function termOverlap(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) {
+    return 0;
+  }
+
+  let shared = 0;
+
+  for (const term of Array.from(a)) {
+    if (b.has(term)) {
+      shared++;
+    }
+  }
+
+  return shared / (a.size + b.size - shared);
+}
+
+// Adjacent term pairs, used to reward passages that keep the query's phrasing
+function bigrams(tokens: string[]): Set<string> {
+  const pairs = new Set<string>();
+
+  for (let i = 1; i < tokens.length; i++) {
+    pairs.add(`${tokens[i - 1]} ${tokens[i]}`);
+  }
+
+  return pairs;
+}
+
+/**
+ * Score candidates locally from query term coverage, phrase matches and the
+ * first-stage similarity. Deterministic, so it also serves as the LLM fallback.
+ */
+export function heuristicScores(query: string, candidates: VectorSearchResult[]): number[] {
+  const queryTokens = tokenize(query);
+  const queryTerms = new Set(queryTokens);
+  const queryBigrams = bigrams(queryTokens);
+
+  return candidates.map(candidate => {
+    const tokens = tokenize(candidate.content);
+    const terms = new Set(tokens);
+    const passageBigrams = bigrams(tokens);
+
+    let covered = 0;
+
+    for (const term of Array.from(queryTerms)) {
+      if (terms.has(term)) {
+        covered++;
+      }
+    }
+
+    let phrases = 0;
+
+    for (const pair of Array.from(queryBigrams)) {
+      if (passageBigrams.has(pair)) {
+        phrases++;
+      }
+    }
+
+    const coverage = queryTerms.size > 0 ? covered / queryTerms.size : 0;
+    const phraseMatch = queryBigrams.size > 0 ? phrases / queryBigrams.size : 0;
+
+    return 0.5 * coverage + 0.2 * phraseMatch + 0.3 * Math.max(0, candidate.similarity);
+  });
+}
+
+/**
+ * Ask a chat model to grade every candidate against the query in one call.
+ * Returns scores in [0, 1], aligned with the candidates.
+ */
+export async function llmScores(
+  client: OpenAI,
+  query: string,
+  candidates: VectorSearchResult[],
+  model: string = DEFAULT_RERANK_MODEL
+): Promise<number[]> {
+  const passages = candidates
+    .map((candidate, index) => `[${index + 1}] ${candidate.content.slice(0, MAX_PASSAGE_LENGTH)}`)
+    .join('\n\n');
+
+  const completion = await client.chat.completions.create(
+    {
+      model,
+      temperature: 0,
+      response_format: { type: 'json_object' },
+      messages: [
+        {
+          role: 'system',
+          content: 'You grade how well passages answer a question. Reply with JSON of the form ' +
+            '{"scores": [{"index": 1, "score": 0}]} giving every passage a score from 0 (irrelevant) ' +
+            'to 10 (directly answers the question).',
+        },
+        {
+          role: 'user',
+          content: `Question: ${query}\n\nPassages:\n${passages}`,
+        },
+      ],
+    },
+    { timeout: RERANK_TIMEOUT }
+  );
+
+  const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}');
+
+  if (!Array.isArray(parsed.scores)) {
+    throw new Error('Rerank response did not contain a scores array');
+  }
+
+  const scores = new Array<number>(candidates.length).fill(0);
+  let graded = 0;
+
+  for (const entry of parsed.scores) {
+    const index = Number(entry?.index) - 1;
+    const score = Number(entry?.score);
+
+    if (Number.isInteger(index) && index >= 0 && index < candidates.length && Number.isFinite(score)) {
+      scores[index] = Math.min(Math.max(score, 0), 10) / 10;
+      graded++;
+    }
+  }
+
+  if (graded === 0) {
+    throw new Error('Rerank response did not grade any passage');
+  }
+
+  return scores;
+}
+
+/**
+ * Greedy maximal marginal relevance: repeatedly pick the candidate with the
+ * best balance of relevance and dissimilarity to what is already selected.
+ * Redundancy is measured as term overlap between passages.
+ */
+export function maximalMarginalRelevance(
+  candidates: VectorSearchResult[],
+  relevance: number[],
+  topK: number,
+  lambda: number = DEFAULT_MMR_LAMBDA
+): VectorSearchResult[] {
+  const termSets = candidates.map(candidate => new Set(tokenize(candidate.content)));
+  const remaining = candidates.map((_, index) => index);
+  const selected: number[] = [];
+
+  while (selected.length < topK && remaining.length > 0) {
+    let bestPosition = 0;
+    let bestScore = Number.NEGATIVE_INFINITY;
+
+    remaining.forEach((candidateIndex, position) => {
+      const redundancy = selected.reduce(
+        (max, selectedIndex) => Math.max(max, termOverlap(termSets[candidateIndex], termSets[selectedIndex])),
+        0
+      );
+      const score = lambda * relevance[candidateIndex] - (1 - lambda) * redundancy;
+
+      if (score > bestScore) {
+        bestScore = score;
+        bestPosition = position;
+      }
+    });
+
+    selected.push(remaining.splice(bestPosition, 1)[0]);
+  }
+
+  return selected.map(index => candidates[index]);
+}
+
+/**
+ * Reorder a retrieval candidate set and diversify it with MMR.
+ * Scores with the local heuristic unless 'llm' is asked for (by the method
+ * option or KNOWLEDGE_RERANK), since LLM scoring adds a chat completion to
+ * every question. LLM scoring falls back to the heuristic if the call fails.
+ */
+export async function rerank(
+  query: string,
+  candidates: VectorSearchResult[],
+  options: RerankOptions = {}
+): Promise<VectorSearchResult[]> {
+  const {
+    topK = 5,
+    client,
+    model,
+    mmrLambda = DEFAULT_MMR_LAMBDA,
+  } = options;
+  const method = options.method || parseRerankMethod(process.env.KNOWLEDGE_RERANK) || 'heuristic';
+
+  if (method === 'none' || candidates.length === 0) {
+    return candidates.slice(0, topK);
+  }
+
+  let relevance: number[] | null = null;
+  let scoredBy: RerankMethod = 'heuristic';
+
+  if (method === 'llm' && client) {
+    try {
+      relevance = await llmScores(client, query, candidates, model);
+      scoredBy = 'llm';
+    } catch (error: any) {
+      logger.warn(`LLM rerank failed, using heuristic scores: ${error.message}`);
+    }
+  }
+
+  if (!relevance) {
+    relevance = heuristicScores(query, candidates);
+  }
+
+  const scores = relevance;
+  const scored = candidates.map((candidate, index) => ({ ...candidate, rerankScore: scores[index] }));
+  const results = maximalMarginalRelevance(scored, scores, topK, mmrLambda);
+
+  logger.info(`Reranked ${candidates.length} candidates down to ${results.length} (${scoredBy})`);
+
+  return results;
+}
+
+export default rerank;
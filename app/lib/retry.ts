@@ -0,0 +1,107 @@
+import createLogger from './logger';
+
+// Create a logger for this module
+const logger = createLogger('RETRY');
+
+export interface RetryOptions {
+  maxRetries?: number;
+  // First backoff delay, doubled on every attempt
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  // Label used in log messages
+  label?: string;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 20000,
+  label: 'request',
+};
+
+const RETRYABLE_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE']);
+
+function readHeader(headers: any, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name];
+
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+/**
+ * Delay requested by the server through `retry-after-ms` or `Retry-After`
+ * (seconds or an HTTP date), if any.
+ */
+export function retryAfterMs(error: any): number | undefined {
+  const headers = error?.headers || error?.response?.headers;
+  const milliseconds = Number(readHeader(headers, 'retry-after-ms'));
+
+  if (Number.isFinite(milliseconds) && milliseconds >= 0) {
+    return milliseconds;
+  }
+
+  const retryAfter = readHeader(headers, 'retry-after');
+
+  if (!retryAfter) {
+    return undefined;
+  }
+
+  const seconds = Number(retryAfter);
+
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+
+  const date = Date.parse(retryAfter);
+
+  return Number.isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
+
+// Rate limits, timeouts, server errors and dropped connections are worth another attempt
+export function isRetryableError(error: any): boolean {
+  const status = Number(error?.status ?? error?.response?.status);
+
+  if (Number.isFinite(status) && status > 0) {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  return error?.name === 'APIConnectionError' ||
+    error?.name === 'APIConnectionTimeoutError' ||
+    RETRYABLE_CODES.has(error?.code) ||
+    RETRYABLE_CODES.has(error?.cause?.code);
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run an operation, retrying retryable failures. Waits as long as the server's
+ * Retry-After asks for, otherwise backs off exponentially with jitter.
+ */
+export async function withRateLimitRetry<T>(operation: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { maxRetries, baseDelayMs, maxDelayMs, label } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error: any) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const requested = retryAfterMs(error);
+      const backoff = baseDelayMs * Math.pow(2, attempt) * (0.5 + Math.random() / 2);
+      const delay = Math.min(requested ?? backoff, maxDelayMs);
+
+      logger.warn(
+        `${label} failed (${error?.status || error?.code || error?.message}), retry ${attempt + 1}/${maxRetries} in ${Math.round(delay)}ms` +
+        (requested !== undefined ? ' (Retry-After)' : '')
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+export default withRateLimitRetry;
@@ -0,0 +1,77 @@
+/**
+ * Server-sent events helpers for streaming route responses.
+ *
+ * Events are written as `event: <name>\ndata: <json>\n\n`. Every stream ends
+ * with either a `done` or an `error` event so clients know when to stop.
+ */
+
+export type SSESend = (event: string, data: any) => void;
+
+export const SSE_HEADERS: Record<string, string> = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Stop proxies (e.g. nginx) from buffering the stream
+  'X-Accel-Buffering': 'no',
+};
+
+export function formatSSEEvent(event: string, data: any): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+// Whether the client asked for a streamed response
+export function wantsEventStream(request: Request, body?: { stream?: any }): boolean {
+  return body?.stream === true || (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Build a streaming Response. The producer emits events through `send`; an
+ * uncaught error is reported as an `error` event before the stream closes.
+ */
+export function createSSEResponse(
+  producer: (send: SSESend, signal: AbortSignal) => Promise<void>,
+  init: { headers?: Record<string, string> } = {}
+): Response {
+  const encoder = new TextEncoder();
+  const controller = new AbortController();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(streamController) {
+      let closed = false;
+
+      const send: SSESend = (event, data) => {
+        if (closed) {
+          return;
+        }
+
+        try {
+          streamController.enqueue(encoder.encode(formatSSEEvent(event, data)));
+        } catch {
+          // The stream was cancelled by the client
+          closed = true;
+        }
+      };
+
+      // An initial comment flushes the headers so the client sees the stream open immediately
+      streamController.enqueue(encoder.encode(': stream opened\n\n'));
+
+      try {
+        await producer(send, controller.signal);
+      } catch (error: any) {
+        console.error('[SSE] Stream producer failed:', error);
+        send('error', { error: error?.message || 'Streaming failed' });
+      } finally {
+        if (!closed) {
+          closed = true;
+          streamController.close();
+        }
+      }
+    },
+    cancel() {
+      // The client went away; let the producer stop early
+      controller.abort();
+    },
+  });
+
+  return new Response(stream, { headers: { ...SSE_HEADERS, ...init.headers } });
+}
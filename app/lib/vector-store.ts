@@ -0,0 +1,1110 @@
+import createLogger from './logger';
+import { BlobInfo, BlobStorage, getBlobStorage } from './blob-storage';
+import { HNSWIndex } from './hnsw-index';
+import { BM25Index } from './bm25-index';
+import { ExtractionReport } from './document-extractor';
+import { DuplicateMatch } from './document-fingerprint';
+
+// Create a logger for this module
+const logger = createLogger('VECTOR-STORE');
+
+// Metadata stored alongside every chunk
+export interface ChunkMetadata {
+  source: string;
+  chunk: number;
+  category?: string;
+  fileType?: string;
+  // Headings the chunk sits under, e.g. "Supplier Module > Create PO > Step 3"
+  headingPath?: string;
+  // Pages of the source PDF the chunk came from
+  pageStart?: number;
+  pageEnd?: number;
+  // Text was recognised by OCR from a scanned page and may contain recognition errors
+  ocr?: boolean;
+  [key: string]: any;
+}
+
+// A single embedded chunk as persisted in <namespace>.json documents
+export interface KnowledgeChunk {
+  id: string;
+  content: string;
+  embedding: number[];
+  metadata: ChunkMetadata;
+}
+
+// Document-level metadata written by processDocument
+export interface DocumentMetadata {
+  id: string;
+  fileName: string;
+  namespace: string;
+  chunks: number;
+  createdAt: string;
+  // Upload's key in the blob storage
+  fileKey?: string;
+  // Path of the upload on disk, for documents stored before blob storage
+  filePath?: string;
+  fileType?: string;
+  category?: string;
+  pageCount?: number;
+  // Scanned pages whose text was recognised by OCR
+  ocrPages?: number[];
+  // Whether all of the file's text was extracted, and what may be missing if not
+  extraction?: ExtractionReport;
+  // Model and vector size that produced the chunk embeddings
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  // Every upload of a document is a version; replacements share the first version's documentId
+  documentId?: string;
+  version?: number;
+  // Only the active version is searched; earlier ones are kept for rollback
+  active?: boolean;
+  // Fingerprint used to detect duplicate uploads
+  fileHash?: string;
+  minHash?: number[];
+  // Documents this one duplicated when it was indexed anyway
+  duplicates?: DuplicateMatch[];
+  [key: string]: any;
+}
+
+// The on-disk shape of a processed document
+export interface StoredDocument {
+  metadata: DocumentMetadata;
+  chunks: KnowledgeChunk[];
+}
+
+// Filters applied before ranking
+export interface VectorSearchFilter {
+  documentIds?: string[];
+  categories?: string[];
+  fileTypes?: string[];
+  // ISO dates bounding when the document was uploaded (inclusive)
+  uploadedAfter?: string;
+  uploadedBefore?: string;
+}
+
+// 'approximate' uses the HNSW index, 'exact' scans every chunk and 'verify'
+// runs both, logs recall@k and returns the exact results
+export type VectorSearchMode = 'approximate' | 'exact' | 'verify';
+
+export interface VectorSearchOptions {
+  topK?: number;
+  filter?: VectorSearchFilter;
+  mode?: VectorSearchMode;
+  // Model that produced the query embedding; documents embedded with another
+  // model are skipped. Without it, documents of the same dimension are searched.
+  embeddingModel?: string;
+}
+
+export interface KeywordSearchOptions {
+  topK?: number;
+  filter?: VectorSearchFilter;
+  // When given, keyword hits also carry their cosine similarity to the query
+  queryEmbedding?: number[];
+  embeddingModel?: string;
+}
+
+export interface VectorSearchResult {
+  documentId: string;
+  content: string;
+  metadata: ChunkMetadata;
+  similarity: number;
+  keywordScore?: number;
+  // Share of the query's terms the chunk contains (keyword hits only)
+  keywordCoverage?: number;
+  score?: number;
+  rerankScore?: number;
+}
+
+/**
+ * Storage-agnostic interface for the knowledge base retrieval engine.
+ * Routes and the assistant talk to this instead of reading JSON files directly,
+ * so other backends can be added without touching them.
+ */
+export interface VectorStore {
+  upsert(document: StoredDocument): Promise<void>;
+  // Write documents, then delete versions by ID, updating the indexes once; nothing is deleted unless every write succeeded
+  writeBatch(documents: StoredDocument[], deleteVersionIds?: string[]): Promise<void>;
+  // Delete a document with all of its versions and their uploads
+  deleteDocument(documentId: string): Promise<boolean>;
+  // Delete one version of a document and its upload; the active version can only go if it is the last one
+  deleteVersion(documentId: string, version: number): Promise<boolean>;
+  search(queryEmbedding: number[], options?: VectorSearchOptions): Promise<VectorSearchResult[]>;
+  keywordSearch(query: string, options?: KeywordSearchOptions): Promise<VectorSearchResult[]>;
+  // Every stored version of every document
+  listDocuments(): Promise<DocumentMetadata[]>;
+  getDocument(documentId: string): Promise<StoredDocument | null>;
+  // Versions of a document, oldest first
+  listVersions(documentId: string): Promise<DocumentMetadata[]>;
+  // Make one version the one that is searched
+  activateVersion(documentId: string, version: number): Promise<DocumentMetadata | null>;
+  // Build the search indexes again from the stored documents and save them
+  rebuildIndexes(): Promise<IndexRebuildReport>;
+}
+
+// Model assumed for documents written before the embedding model was recorded
+export const LEGACY_EMBEDDING_MODEL = 'text-embedding-ada-002';
+
+export function documentEmbeddingModel(metadata: DocumentMetadata): string {
+  return metadata.embeddingModel || LEGACY_EMBEDDING_MODEL;
+}
+
+// Documents stored before versioning are version 1 of themselves
+export function documentIdOf(metadata: DocumentMetadata): string {
+  return metadata.documentId || metadata.id;
+}
+
+export function documentVersionOf(metadata: DocumentMetadata): number {
+  return metadata.version || 1;
+}
+
+export function isActiveVersion(metadata: DocumentMetadata): boolean {
+  return metadata.active !== false;
+}
+
+// Calculate cosine similarity between two vectors
+export function cosineSimilarity(vecA: number[], vecB: number[]): number {
+  // Vectors from different models are not comparable, even where the sizes happen to allow it
+  if (vecA.length !== vecB.length) {
+    throw new Error(`Cannot compare embeddings of different dimensions (${vecA.length} and ${vecB.length})`);
+  }
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < vecA.length; i++) {
+    dotProduct += vecA[i] * vecB[i];
+    normA += vecA[i] * vecA[i];
+    normB += vecB[i] * vecB[i];
+  }
+
+  if (normA === 0 || normB === 0) {
+    return 0;
+  }
+
+  return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// Date-only upper bounds ("2025-06-11") include the whole day
+function parseUpperBound(value: string): number {
+  const time = Date.parse(value);
+
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + 24 * 60 * 60 * 1000 - 1 : time;
+}
+
+// Check whether a chunk passes the given filter
+export function matchesFilter(
+  documentId: string,
+  chunk: KnowledgeChunk,
+  filter?: VectorSearchFilter,
+  document?: DocumentMetadata
+): boolean {
+  if (!filter) {
+    return true;
+  }
+
+  // Either a version's own ID or the ID shared by all versions of the document
+  if (
+    filter.documentIds &&
+    filter.documentIds.length > 0 &&
+    !filter.documentIds.includes(documentId) &&
+    !(document && filter.documentIds.includes(documentIdOf(document)))
+  ) {
+    return false;
+  }
+
+  if (filter.categories && filter.categories.length > 0 && !filter.categories.includes((chunk.metadata?.category || '').toLowerCase())) {
+    return false;
+  }
+
+  if (filter.fileTypes && filter.fileTypes.length > 0 && !filter.fileTypes.includes((chunk.metadata?.fileType || '').toLowerCase())) {
+    return false;
+  }
+
+  if (filter.uploadedAfter || filter.uploadedBefore) {
+    const uploadedAt = Date.parse(document?.createdAt || '');
+
+    if (Number.isNaN(uploadedAt)) {
+      return false;
+    }
+
+    if (filter.uploadedAfter && uploadedAt < Date.parse(filter.uploadedAfter)) {
+      return false;
+    }
+
+    if (filter.uploadedBefore && uploadedAt > parseUpperBound(filter.uploadedBefore)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Validate a filter object coming from a request body.
+ * Returns undefined when no filter was given and throws on malformed input.
+ */
+export function parseSearchFilter(input: any): VectorSearchFilter | undefined {
+  if (input === undefined || input === null) {
+    return undefined;
+  }
+
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('filters must be an object');
+  }
+
+  const filter: VectorSearchFilter = {};
+
+  for (const name of ['documentIds', 'categories', 'fileTypes'] as const) {
+    const value = input[name];
+
+    if (value === undefined || value === null) {
+      continue;
+    }
+
+    const list = Array.isArray(value) ? value : [value];
+
+    if (!list.every(item => typeof item === 'string')) {
+      throw new Error(`filters.${name} must be a string or an array of strings`);
+    }
+
+    if (list.length > 0) {
+      filter[name] = name === 'documentIds' ? list : list.map(item => item.toLowerCase());
+    }
+  }
+
+  for (const name of ['uploadedAfter', 'uploadedBefore'] as const) {
+    const value = input[name];
+
+    if (value === undefined || value === null || value === '') {
+      continue;
+    }
+
+    if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+      throw new Error(`filters.${name} must be an ISO date`);
+    }
+
+    filter[name] = value;
+  }
+
+  if (filter.uploadedAfter && filter.uploadedBefore &&
+      Date.parse(filter.uploadedAfter) > parseUpperBound(filter.uploadedBefore)) {
+    throw new Error('filters.uploadedAfter must not be later than filters.uploadedBefore');
+  }
+
+  return Object.keys(filter).length > 0 ? filter : undefined;
+}
+
+interface CachedDocument {
+  fileName: string;
+  etag: string;
+  document: StoredDocument;
+}
+
+export interface RecallReport {
+  recall: number;
+  approximate: VectorSearchResult[];
+  exact: VectorSearchResult[];
+}
+
+export interface IndexRebuildReport {
+  // Active documents in the indexes
+  documents: number;
+  // Chunks in the BM25 index
+  keywordChunks: number;
+  // HNSW graph nodes per embedding model
+  vectorNodes: Record<string, number>;
+}
+
+// Folder (inside the storage root) holding derived search indexes
+export const INDEX_DIR_NAME = '.index';
+
+// Rebuild the graph from scratch once this share of its nodes are tombstones
+const HNSW_REBUILD_DELETED_RATIO = 0.3;
+
+// Queries reuse the storage listing for this long; changes made by this process are seen at once
+const LISTING_MAX_AGE_MS = (Number(process.env.KNOWLEDGE_REFRESH_SECONDS) || 5) * 1000;
+
+const DEFAULT_SEARCH_MODE: VectorSearchMode =
+  (process.env.KNOWLEDGE_SEARCH_MODE as VectorSearchMode) || 'approximate';
+
+// Index keys identify a chunk by its document and position within it
+function chunkKey(documentId: string, chunkIndex: number): string {
+  return `${documentId}::${chunkIndex}`;
+}
+
+function parseChunkKey(key: string): { documentId: string; chunkIndex: number } {
+  const separator = key.lastIndexOf('::');
+
+  return {
+    documentId: key.slice(0, separator),
+    chunkIndex: Number(key.slice(separator + 2)),
+  };
+}
+
+// Common surface of the per-chunk indexes kept next to the documents
+interface DocumentIndex {
+  documents: Record<string, string>;
+  keys(): string[];
+  remove(key: string): boolean;
+}
+
+function documentSignature(cached: CachedDocument): string {
+  const model = documentEmbeddingModel(cached.document.metadata);
+  const signature = `${cached.fileName}:${cached.etag}:${cached.document.chunks.length}:${model}`;
+
+  return isActiveVersion(cached.document.metadata) ? signature : `${signature}:inactive`;
+}
+
+// Each embedding model gets its own HNSW graph file
+function hnswFileName(model: string): string {
+  return `hnsw-${model.replace(/[^A-Za-z0-9.-]+/g, '_')}.json`;
+}
+
+/**
+ * Vector store kept as JSON files in the blob storage (see blob-storage.ts).
+ *
+ * Each document lives in `<namespace>.json` at the storage root. Parsed
+ * documents are kept in memory and only re-read when a file's ETag changes, so
+ * repeated queries within the same server process don't re-parse every file.
+ * Vectors are only compared with vectors from the same embedding model, so
+ * documents can be migrated to a new model one at a time. Replaced versions of
+ * a document stay in storage for rollback but are left out of the indexes.
+ */
+export class FileVectorStore implements VectorStore {
+  private cache = new Map<string, CachedDocument>();
+  // One HNSW graph per embedding model
+  private indexes = new Map<string, HNSWIndex>();
+  private keywordIndex: BM25Index | null = null;
+  private indexDir: string | null = null;
+  private storage: BlobStorage;
+  // Concurrent callers share one refresh, and index syncs run one after another
+  private refreshing: Promise<void> | null = null;
+  private refreshedAt = 0;
+  private syncing: Promise<void> = Promise.resolve();
+
+  constructor(storage?: BlobStorage) {
+    this.storage = storage || getBlobStorage();
+  }
+
+  get location(): string {
+    return this.storage.location;
+  }
+
+  private indexKey(fileName: string): string {
+    return `${INDEX_DIR_NAME}/${fileName}`;
+  }
+
+  /**
+   * Sync the in-memory cache with the JSON files in storage, unless that was
+   * done less than maxAge ago. Writes pass 0 so they never act on a stale listing.
+   */
+  private refresh(maxAge = LISTING_MAX_AGE_MS): Promise<void> {
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+
+    if (Date.now() - this.refreshedAt < maxAge) {
+      return Promise.resolve();
+    }
+
+    this.refreshing = this.reload()
+      .then(() => {
+        this.refreshedAt = Date.now();
+      })
+      .finally(() => {
+        this.refreshing = null;
+      });
+
+    return this.refreshing;
+  }
+
+  private async reload(): Promise<void> {
+    let files: BlobInfo[] = [];
+
+    try {
+      // Documents sit at the root; uploads aren't JSON, and indexes and other state are in folders
+      files = (await this.storage.list('', { recursive: false })).filter(blob => !blob.key.includes('/') && blob.key.endsWith('.json'));
+    } catch (error) {
+      // An unreachable storage is an error, not an empty knowledge base
+      logger.error(`Failed to read storage ${this.location}:`, error);
+
+      throw new Error(`Could not list the documents in ${this.location}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const seen = new Set<string>();
+
+    for (const { key: file, etag, lastModified } of files) {
+      try {
+        const cachedId = this.findIdByFile(file);
+        const cached = cachedId ? this.cache.get(cachedId) : undefined;
+
+        if (cached && cached.etag === etag) {
+          seen.add(cachedId as string);
+          continue;
+        }
+
+        const content = await this.storage.get(file);
+
+        // Deleted since it was listed
+        if (!content) {
+          continue;
+        }
+
+        const data = JSON.parse(content.toString('utf-8'));
+
+        if (!data.chunks || !Array.isArray(data.chunks)) {
+          continue;
+        }
+
+        const document: StoredDocument = {
+          metadata: data.metadata || {
+            id: file.replace(/\.json$/, ''),
+            fileName: file,
+            namespace: file.replace(/\.json$/, ''),
+            chunks: data.chunks.length,
+            createdAt: lastModified.toISOString(),
+          },
+          chunks: data.chunks,
+        };
+
+        if (cachedId && cachedId !== document.metadata.id) {
+          this.cache.delete(cachedId);
+        }
+
+        this.cache.set(document.metadata.id, { fileName: file, etag, document });
+        seen.add(document.metadata.id);
+      } catch (fileError) {
+        logger.error(`Error processing file ${file}:`, fileError);
+        // Continue with other files
+      }
+    }
+
+    // Drop documents whose files were removed
+    for (const id of Array.from(this.cache.keys())) {
+      if (!seen.has(id)) {
+        this.cache.delete(id);
+      }
+    }
+
+    await this.syncIndexes();
+  }
+
+  // A persisted index, parsed; throws if there is none
+  private async readIndex(fileName: string): Promise<any> {
+    const content = await this.storage.get(this.indexKey(fileName));
+
+    if (!content) {
+      throw new Error('not found');
+    }
+
+    return JSON.parse(content.toString('utf-8'));
+  }
+
+  // Load the persisted HNSW graph of a model, or start an empty one if none is usable
+  private async loadHnswIndex(model: string): Promise<HNSWIndex> {
+    const indexPath = this.indexKey(hnswFileName(model));
+
+    try {
+      const index = HNSWIndex.deserialize(await this.readIndex(hnswFileName(model)));
+
+      for (const key of index.keys()) {
+        const { documentId, chunkIndex } = parseChunkKey(key);
+        const document = this.cache.get(documentId)?.document;
+        const chunk = document?.chunks[chunkIndex];
+
+        if (chunk?.embedding && document && documentEmbeddingModel(document.metadata) === model) {
+          index.attachVector(key, chunk.embedding);
+        }
+      }
+
+      // Any document with a missing vector is re-indexed by syncIndexes
+      for (const key of index.missingVectors()) {
+        delete index.documents[parseChunkKey(key).documentId];
+      }
+
+      logger.info(`Loaded HNSW index with ${index.size} nodes from ${indexPath}`);
+
+      return index;
+    } catch (error) {
+      logger.info(`No usable HNSW index at ${indexPath}, building a new one: ${error instanceof Error ? error.message : String(error)}`);
+
+      return new HNSWIndex();
+    }
+  }
+
+  private async loadKeywordIndex(): Promise<BM25Index> {
+    const indexPath = this.indexKey('bm25.json');
+
+    try {
+      const index = BM25Index.deserialize(await this.readIndex('bm25.json'));
+
+      logger.info(`Loaded BM25 index with ${index.size} chunks from ${indexPath}`);
+
+      return index;
+    } catch (error) {
+      logger.info(`No usable BM25 index at ${indexPath}, building a new one: ${error instanceof Error ? error.message : String(error)}`);
+
+      return new BM25Index();
+    }
+  }
+
+  private async saveIndex(fileName: string, data: unknown): Promise<void> {
+    const indexPath = this.indexKey(fileName);
+
+    try {
+      await this.storage.put(indexPath, JSON.stringify(data));
+    } catch (error) {
+      // Indexes can always be rebuilt from the chunk files, so this is not fatal
+      logger.warn(`Failed to persist index to ${indexPath}:`, error);
+    }
+  }
+
+  // Drop index entries for documents that were removed or changed in storage
+  private removeStaleDocuments(index: DocumentIndex): boolean {
+    let changed = false;
+
+    for (const documentId of Object.keys(index.documents)) {
+      const cached = this.cache.get(documentId);
+
+      if (cached && documentSignature(cached) === index.documents[documentId]) {
+        continue;
+      }
+
+      const prefix = `${documentId}::`;
+
+      for (const key of index.keys()) {
+        if (key.startsWith(prefix)) {
+          index.remove(key);
+        }
+      }
+
+      delete index.documents[documentId];
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  // Index every active cached document the index doesn't know about yet
+  private addMissingDocuments(
+    index: DocumentIndex,
+    addChunk: (key: string, chunk: KnowledgeChunk) => void,
+    include: (cached: CachedDocument) => boolean = () => true
+  ): boolean {
+    let changed = false;
+
+    for (const [documentId, cached] of Array.from(this.cache.entries())) {
+      if (index.documents[documentId] || !isActiveVersion(cached.document.metadata) || !include(cached)) {
+        continue;
+      }
+
+      cached.document.chunks.forEach((chunk, chunkIndex) => {
+        if (chunk) {
+          addChunk(chunkKey(documentId, chunkIndex), chunk);
+        }
+      });
+
+      index.documents[documentId] = documentSignature(cached);
+      changed = true;
+    }
+
+    return changed;
+  }
+
+  // Bring the HNSW graph of one embedding model in line with its documents
+  private async syncHnswIndex(model: string): Promise<void> {
+    let index = this.indexes.get(model) || await this.loadHnswIndex(model);
+    let changed = this.removeStaleDocuments(index);
+
+    if (index.deletedRatio > HNSW_REBUILD_DELETED_RATIO) {
+      logger.info(`Rebuilding HNSW index for ${model} (${Math.round(index.deletedRatio * 100)}% deleted nodes)`);
+      index = new HNSWIndex(index.params);
+    }
+
+    this.indexes.set(model, index);
+
+    changed = this.addMissingDocuments(
+      index,
+      (key, chunk) => {
+        if (chunk.embedding) {
+          index.add(key, chunk.embedding);
+        }
+      },
+      cached => documentEmbeddingModel(cached.document.metadata) === model
+    ) || changed;
+
+    if (changed) {
+      logger.info(`HNSW index for ${model} updated, ${index.size} nodes`);
+      await this.saveIndex(hnswFileName(model), index.serialize());
+    }
+  }
+
+  /**
+   * Bring the HNSW graphs and the BM25 index in line with the cached documents.
+   * Only documents that were added, changed or removed since the last sync are
+   * touched. Syncs are queued, so an index is never loaded or saved twice at once.
+   */
+  private syncIndexes(): Promise<void> {
+    const sync = this.syncing.then(() => this.updateIndexes());
+
+    this.syncing = sync.catch(() => undefined);
+
+    return sync;
+  }
+
+  private async updateIndexes(): Promise<void> {
+    if (!this.keywordIndex || this.indexDir !== this.location) {
+      this.indexDir = this.location;
+      this.indexes.clear();
+      this.keywordIndex = await this.loadKeywordIndex();
+    }
+
+    const models = new Set(Array.from(this.cache.values()).map(cached => documentEmbeddingModel(cached.document.metadata)));
+
+    for (const model of Array.from(models)) {
+      await this.syncHnswIndex(model);
+    }
+
+    // Graphs of models no document uses any more, e.g. after re-embedding
+    for (const model of Array.from(this.indexes.keys())) {
+      if (!models.has(model)) {
+        this.indexes.delete(model);
+        await this.storage.delete(this.indexKey(hnswFileName(model))).catch(() => undefined);
+      }
+    }
+
+    const keywordIndex = this.keywordIndex;
+    let keywordChanged = this.removeStaleDocuments(keywordIndex);
+
+    keywordChanged = this.addMissingDocuments(keywordIndex, (key, chunk) => {
+      keywordIndex.add(key, chunk.content || '');
+    }) || keywordChanged;
+
+    if (keywordChanged) {
+      logger.info(`BM25 index updated, ${keywordIndex.size} chunks`);
+      await this.saveIndex('bm25.json', keywordIndex.serialize());
+    }
+  }
+
+  private findIdByFile(fileName: string): string | undefined {
+    for (const [id, cached] of Array.from(this.cache.entries())) {
+      if (cached.fileName === fileName) {
+        return id;
+      }
+    }
+
+    return undefined;
+  }
+
+  // Write a document's file and cache it, without updating the indexes
+  private async writeDocument(document: StoredDocument): Promise<void> {
+    const existing = this.cache.get(document.metadata.id);
+    const fileName = existing?.fileName || `${document.metadata.namespace}.json`;
+
+    logger.info(`Writing document ${document.metadata.id} with ${document.chunks.length} chunks to ${fileName}`);
+
+    // Pretty print for easier debugging
+    const { etag } = await this.storage.put(fileName, JSON.stringify(document, null, 2));
+
+    this.cache.set(document.metadata.id, { fileName, etag, document });
+  }
+
+  async upsert(document: StoredDocument): Promise<void> {
+    await this.writeDocument(document);
+    await this.syncIndexes();
+  }
+
+  async writeBatch(documents: StoredDocument[], deleteVersionIds: string[] = []): Promise<void> {
+    await this.refresh(0);
+
+    for (const document of documents) {
+      await this.writeDocument(document);
+    }
+
+    // A version that was just written keeps its file even if it was asked to go
+    const written = new Set(documents.map(document => document.metadata.id));
+    const writtenFiles = new Set(Array.from(written).map(id => this.cache.get(id)?.fileName));
+    const removed: DocumentMetadata[] = [];
+
+    for (const id of deleteVersionIds.filter(id => !written.has(id))) {
+      const cached = this.cache.get(id);
+
+      if (!cached) {
+        continue;
+      }
+
+      if (!writtenFiles.has(cached.fileName)) {
+        await this.storage.delete(cached.fileName);
+      }
+
+      this.cache.delete(id);
+      removed.push(cached.document.metadata);
+    }
+
+    await this.deleteUnusedUploads(removed);
+    await this.syncIndexes();
+    logger.info(`Wrote ${documents.length} documents and deleted ${removed.length} versions`);
+  }
+
+  // Cached versions of a document, oldest first; accepts the ID of any of its versions
+  private versionsOf(documentId: string): Array<[string, CachedDocument]> {
+    const own = this.cache.get(documentId);
+    const sharedId = own ? documentIdOf(own.document.metadata) : documentId;
+
+    return Array.from(this.cache.entries())
+      .filter(([, cached]) => documentIdOf(cached.document.metadata) === sharedId)
+      .sort(([, a], [, b]) => documentVersionOf(a.document.metadata) - documentVersionOf(b.document.metadata));
+  }
+
+  // Delete the uploads of removed versions that no remaining version was stored from
+  private async deleteUnusedUploads(removed: DocumentMetadata[]): Promise<void> {
+    const inUse = new Set(Array.from(this.cache.values()).map(cached => cached.document.metadata.fileKey));
+
+    for (const fileKey of Array.from(new Set(removed.map(metadata => metadata.fileKey)))) {
+      if (fileKey && !inUse.has(fileKey)) {
+        await this.storage.delete(fileKey).catch(error => logger.warn(`Could not delete upload ${fileKey}:`, error));
+      }
+    }
+  }
+
+  async deleteDocument(documentId: string): Promise<boolean> {
+    await this.refresh(0);
+
+    const versions = this.versionsOf(documentId);
+
+    if (versions.length === 0) {
+      return false;
+    }
+
+    for (const [id, cached] of versions) {
+      await this.storage.delete(cached.fileName);
+      this.cache.delete(id);
+    }
+
+    await this.deleteUnusedUploads(versions.map(([, cached]) => cached.document.metadata));
+    await this.syncIndexes();
+    logger.info(`Deleted document ${documentId} (${versions.length} versions)`);
+
+    return true;
+  }
+
+  async deleteVersion(documentId: string, version: number): Promise<boolean> {
+    await this.refresh(0);
+
+    const versions = this.versionsOf(documentId);
+    const entry = versions.find(([, cached]) => documentVersionOf(cached.document.metadata) === version);
+
+    if (!entry) {
+      return false;
+    }
+
+    const [id, cached] = entry;
+
+    if (isActiveVersion(cached.document.metadata) && versions.length > 1) {
+      throw new Error(`Version ${version} is active; activate another version before deleting it`);
+    }
+
+    await this.storage.delete(cached.fileName);
+    this.cache.delete(id);
+    await this.deleteUnusedUploads([cached.document.metadata]);
+    await this.syncIndexes();
+    logger.info(`Deleted version ${version} of document ${documentId} (${cached.fileName})`);
+
+    return true;
+  }
+
+  async listVersions(documentId: string): Promise<DocumentMetadata[]> {
+    await this.refresh();
+
+    return this.versionsOf(documentId).map(([, cached]) => cached.document.metadata);
+  }
+
+  async activateVersion(documentId: string, version: number): Promise<DocumentMetadata | null> {
+    await this.refresh(0);
+
+    const versions = this.versionsOf(documentId);
+
+    if (!versions.some(([, cached]) => documentVersionOf(cached.document.metadata) === version)) {
+      return null;
+    }
+
+    let activated: DocumentMetadata | null = null;
+
+    for (const [, cached] of versions) {
+      const { metadata, chunks } = cached.document;
+      const active = documentVersionOf(metadata) === version;
+
+      if (active) {
+        activated = { ...metadata, active: true };
+      }
+
+      if (isActiveVersion(metadata) !== active || metadata.active === undefined) {
+        await this.writeDocument({ metadata: active ? (activated as DocumentMetadata) : { ...metadata, active: false }, chunks });
+      }
+    }
+
+    await this.syncIndexes();
+    logger.info(`Activated version ${version} of document ${documentId}`);
+
+    return activated;
+  }
+
+  /**
+   * Discard the persisted and in-memory indexes, build them again from the
+   * stored documents and save every one of them. Unlike the incremental saves,
+   * a failed write is an error here.
+   */
+  async rebuildIndexes(): Promise<IndexRebuildReport> {
+    for (const index of await this.storage.list(`${INDEX_DIR_NAME}/`)) {
+      await this.storage.delete(index.key);
+    }
+
+    this.indexes.clear();
+    this.keywordIndex = null;
+    this.indexDir = null;
+    await this.refresh(0);
+
+    const keywordIndex = this.keywordIndex || new BM25Index();
+    const vectorNodes: Record<string, number> = {};
+
+    await this.storage.put(this.indexKey('bm25.json'), JSON.stringify(keywordIndex.serialize()));
+
+    for (const [model, index] of Array.from(this.indexes.entries())) {
+      await this.storage.put(this.indexKey(hnswFileName(model)), JSON.stringify(index.serialize()));
+      vectorNodes[model] = index.size;
+    }
+
+    const documents = Array.from(this.cache.values()).filter(cached => isActiveVersion(cached.document.metadata)).length;
+
+    logger.info(`Rebuilt the search indexes: ${documents} documents, ${keywordIndex.size} chunks`);
+
+    return { documents, keywordChunks: keywordIndex.size, vectorNodes };
+  }
+
+  async getDocument(documentId: string): Promise<StoredDocument | null> {
+    await this.refresh();
+
+    return this.cache.get(documentId)?.document || null;
+  }
+
+  async listDocuments(): Promise<DocumentMetadata[]> {
+    await this.refresh();
+
+    return Array.from(this.cache.values()).map(cached => cached.document.metadata);
+  }
+
+  private toResult(documentId: string, chunk: KnowledgeChunk, similarity: number): VectorSearchResult {
+    return {
+      documentId,
+      content: chunk.content,
+      metadata: chunk.metadata || { source: 'unknown', chunk: 0 },
+      similarity,
+    };
+  }
+
+  /**
+   * The model whose documents a query embedding can be compared with: the one
+   * given, otherwise the model of the first document with vectors of the same size.
+   */
+  private resolveModel(queryEmbedding: number[], embeddingModel?: string): string {
+    if (embeddingModel) {
+      return embeddingModel;
+    }
+
+    for (const cached of Array.from(this.cache.values())) {
+      const chunk = cached.document.chunks.find(candidate => candidate?.embedding);
+
+      if (chunk && chunk.embedding.length === queryEmbedding.length) {
+        return documentEmbeddingModel(cached.document.metadata);
+      }
+    }
+
+    return LEGACY_EMBEDDING_MODEL;
+  }
+
+  // Whether a document's vectors can be compared with a query embedding of the given model
+  private isComparable(document: StoredDocument | undefined, model: string, queryEmbedding: number[]): boolean {
+    if (!document || documentEmbeddingModel(document.metadata) !== model) {
+      return false;
+    }
+
+    const dimensions = document.metadata.embeddingDimensions;
+
+    return !dimensions || dimensions === queryEmbedding.length;
+  }
+
+  // Brute-force cosine over every chunk that passes the filter
+  private exactSearch(
+    queryEmbedding: number[],
+    topK: number,
+    model: string,
+    filter?: VectorSearchFilter
+  ): VectorSearchResult[] {
+    const results: VectorSearchResult[] = [];
+    let skipped = 0;
+
+    for (const [documentId, cached] of Array.from(this.cache.entries())) {
+      if (!isActiveVersion(cached.document.metadata)) {
+        continue;
+      }
+
+      if (!this.isComparable(cached.document, model, queryEmbedding)) {
+        skipped++;
+        continue;
+      }
+
+      for (const chunk of cached.document.chunks) {
+        // Ensure chunk has embedding
+        if (!chunk || !chunk.embedding || !matchesFilter(documentId, chunk, filter, cached.document.metadata)) {
+          continue;
+        }
+
+        results.push(this.toResult(documentId, chunk, cosineSimilarity(queryEmbedding, chunk.embedding)));
+      }
+    }
+
+    if (skipped > 0) {
+      logger.warn(`Skipped ${skipped} documents not embedded with ${model}; re-embed them to include them in search`);
+    }
+
+    // Sort by similarity and take the top results
+    return results.sort((a, b) => b.similarity - a.similarity).slice(0, topK);
+  }
+
+  // Resolve an index key back to its cached chunk
+  private lookupChunk(key: string): { documentId: string; chunk?: KnowledgeChunk; document?: StoredDocument } {
+    const { documentId, chunkIndex } = parseChunkKey(key);
+    const document = this.cache.get(documentId)?.document;
+
+    return { documentId, chunk: document?.chunks[chunkIndex], document };
+  }
+
+  // Build an index-key predicate for the given filter
+  private keyFilter(filter?: VectorSearchFilter): ((key: string) => boolean) | undefined {
+    if (!filter) {
+      return undefined;
+    }
+
+    return key => {
+      const { documentId, chunk, document } = this.lookupChunk(key);
+
+      return !!chunk && matchesFilter(documentId, chunk, filter, document?.metadata);
+    };
+  }
+
+  private approximateSearch(
+    queryEmbedding: number[],
+    topK: number,
+    model: string,
+    filter?: VectorSearchFilter
+  ): VectorSearchResult[] {
+    const index = this.indexes.get(model);
+
+    if (!index) {
+      return [];
+    }
+
+    return index
+      .search(queryEmbedding, topK, {
+        // Widen the beam when filtering so enough candidates survive
+        ef: filter ? Math.max(index.params.efSearch * 4, topK * 10) : undefined,
+        filter: this.keyFilter(filter),
+      })
+      .map(hit => ({ ...this.lookupChunk(hit.key), similarity: hit.similarity }))
+      .filter(hit => !!hit.chunk)
+      .map(hit => this.toResult(hit.documentId, hit.chunk as KnowledgeChunk, hit.similarity));
+  }
+
+  async keywordSearch(query: string, options: KeywordSearchOptions = {}): Promise<VectorSearchResult[]> {
+    const { topK = 5, filter, queryEmbedding, embeddingModel } = options;
+
+    await this.refresh();
+
+    if (!this.keywordIndex) {
+      return [];
+    }
+
+    const results: VectorSearchResult[] = [];
+    const model = queryEmbedding ? this.resolveModel(queryEmbedding, embeddingModel) : '';
+
+    for (const hit of this.keywordIndex.search(query, topK, this.keyFilter(filter))) {
+      const { documentId, chunk, document } = this.lookupChunk(hit.key);
+
+      if (!chunk) {
+        continue;
+      }
+
+      // Keyword matches don't depend on embeddings, but similarity is only known for the query's model
+      const similarity = queryEmbedding && chunk.embedding && this.isComparable(document, model, queryEmbedding)
+        ? cosineSimilarity(queryEmbedding, chunk.embedding)
+        : 0;
+
+      results.push({ ...this.toResult(documentId, chunk, similarity), keywordScore: hit.score, keywordCoverage: hit.coverage });
+    }
+
+    return results;
+  }
+
+  // Compare approximate results with an exact scan for the same query
+  async measureRecall(queryEmbedding: number[], options: VectorSearchOptions = {}): Promise<RecallReport> {
+    const { topK = 5, filter } = options;
+
+    await this.refresh();
+
+    const model = this.resolveModel(queryEmbedding, options.embeddingModel);
+    const approximate = this.approximateSearch(queryEmbedding, topK, model, filter);
+    const exact = this.exactSearch(queryEmbedding, topK, model, filter);
+    const exactKeys = new Set(exact.map(result => `${result.documentId}::${result.metadata.chunk}`));
+    const hits = approximate.filter(result => exactKeys.has(`${result.documentId}::${result.metadata.chunk}`)).length;
+
+    return {
+      recall: exact.length === 0 ? 1 : hits / exact.length,
+      approximate,
+      exact,
+    };
+  }
+
+  async search(queryEmbedding: number[], options: VectorSearchOptions = {}): Promise<VectorSearchResult[]> {
+    const { topK = 5, filter, mode = DEFAULT_SEARCH_MODE } = options;
+
+    if (mode === 'verify') {
+      const report = await this.measureRecall(queryEmbedding, options);
+
+      logger.info(`Recall@${topK} of approximate search: ${report.recall.toFixed(3)}`);
+
+      return report.exact;
+    }
+
+    await this.refresh();
+
+    const model = this.resolveModel(queryEmbedding, options.embeddingModel);
+    const index = this.indexes.get(model);
+
+    if (mode === 'approximate' && index && index.size > 0) {
+      const results = this.approximateSearch(queryEmbedding, topK, model, filter);
+
+      // Fall back to a scan when a narrow filter leaves too few graph candidates
+      if (results.length >= topK) {
+        return results;
+      }
+
+      logger.info(`Approximate search returned ${results.length}/${topK} results, falling back to exact scan`);
+    }
+
+    return this.exactSearch(queryEmbedding, topK, model, filter);
+  }
+}
+
+// Shared instance so the in-memory index stays warm across requests
+let sharedStore: VectorStore | null = null;
+
+export function getVectorStore(): VectorStore {
+  if (!sharedStore) {
+    sharedStore = new FileVectorStore();
+  }
+
+  return sharedStore;
+}
+
+export default getVectorStore;
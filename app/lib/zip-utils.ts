@@ -0,0 +1,193 @@
+import { deflateRawSync, inflateRawSync } from 'zlib';
+
+/**
+ * Minimal zip archive reader and writer, for .docx files, bulk uploads and
+ * knowledge base bundles.
+ *
+ * Entries are found through the central directory at the end of the archive,
+ * so sizes are known even when the local headers use data descriptors. Only
+ * stored and deflated entries are supported, which covers archives written by
+ * Word, Windows Explorer, macOS Finder and `zip`.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Limits on what one archive may unpack to, so a small zip bomb can't fill memory
+const MAX_ENTRIES = Number(process.env.ZIP_MAX_ENTRIES) || 10000;
+const MAX_UNCOMPRESSED_BYTES = (Number(process.env.ZIP_MAX_UNCOMPRESSED_MB) || 1024) * 1024 * 1024;
+
+// CRC-32 lookup table (polynomial 0xedb88320), as zip requires
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+
+  return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Read the entries of a zip archive; directories and entries that aren't asked for are skipped
+ * @param archive The archive's bytes
+ * @param include Picks the entries to read by their path inside the archive
+ * @returns Content of each entry, by path
+ * @throws If the archive is corrupt, has more than ZIP_MAX_ENTRIES entries or unpacks to more than ZIP_MAX_UNCOMPRESSED_MB
+ */
+export function readZipEntries(archive: Buffer, include: (name: string) => boolean = () => true): Map<string, Buffer> {
+  const entries = new Map<string, Buffer>();
+  let end = -1;
+
+  // The end record sits at the end of the archive, followed by an optional comment of up to 64 KB
+  for (let offset = archive.length - 22; offset >= Math.max(0, archive.length - 22 - 0xffff); offset--) {
+    if (archive.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+
+  if (end === -1) {
+    throw new Error('Not a valid zip archive (zip directory not found)');
+  }
+
+  const entryCount = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  let totalBytes = 0;
+
+  if (entryCount > MAX_ENTRIES) {
+    throw new Error(`Zip archive has ${entryCount} entries; at most ${MAX_ENTRIES} are allowed`);
+  }
+
+  for (let i = 0; i < entryCount; i++) {
+    if (archive.readUInt32LE(offset) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('Not a valid zip archive (corrupt zip directory)');
+    }
+
+    const method = archive.readUInt16LE(offset + 10);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const uncompressedSize = archive.readUInt32LE(offset + 24);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const extraLength = archive.readUInt16LE(offset + 30);
+    const commentLength = archive.readUInt16LE(offset + 32);
+    const headerOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.toString('utf-8', offset + 46, offset + 46 + nameLength);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/') || !include(name)) {
+      continue;
+    }
+
+    totalBytes += uncompressedSize;
+
+    if (totalBytes > MAX_UNCOMPRESSED_BYTES) {
+      throw new Error(`Zip archive unpacks to more than ${Math.round(MAX_UNCOMPRESSED_BYTES / 1024 / 1024)} MB`);
+    }
+
+    if (archive.readUInt32LE(headerOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Not a valid zip archive (corrupt entry ${name})`);
+    }
+
+    const dataStart = headerOffset + 30 + archive.readUInt16LE(headerOffset + 26) + archive.readUInt16LE(headerOffset + 28);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+
+    let content: Buffer;
+
+    if (method === 0) {
+      content = Buffer.from(data);
+    } else if (method === 8) {
+      try {
+        // Inflating stops as soon as the entry grows past its declared size
+        content = inflateRawSync(data, { maxOutputLength: Math.max(uncompressedSize, 1) });
+      } catch (inflateError) {
+        throw new Error(`Zip entry ${name} is corrupt or larger than its declared size: ${inflateError instanceof Error ? inflateError.message : String(inflateError)}`);
+      }
+    } else {
+      throw new Error(`Unsupported compression method ${method} in zip entry ${name}`);
+    }
+
+    if (content.length !== uncompressedSize) {
+      throw new Error(`Zip entry ${name} is ${content.length} bytes but its declared size is ${uncompressedSize}`);
+    }
+
+    entries.set(name, content);
+  }
+
+  return entries;
+}
+
+/**
+ * Write a zip archive with every entry deflated
+ * @param entries Content of each entry, by path inside the archive
+ * @returns The archive's bytes
+ */
+export function writeZip(entries: Map<string, Buffer>): Buffer {
+  const now = new Date();
+  // Modification time in MS-DOS format, which zip uses
+  const dosTime = (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2);
+  const dosDate = ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate();
+  const localParts: Buffer[] = [];
+  const directoryParts: Buffer[] = [];
+  let offset = 0;
+
+  entries.forEach((content, name) => {
+    const nameBytes = Buffer.from(name, 'utf-8');
+    const compressed = deflateRawSync(content);
+    const crc = crc32(content);
+    const header = Buffer.alloc(30);
+
+    header.writeUInt32LE(LOCAL_FILE_HEADER, 0);
+    header.writeUInt16LE(20, 4);
+    // Bit 11: the name is UTF-8
+    header.writeUInt16LE(0x0800, 6);
+    header.writeUInt16LE(8, 8);
+    header.writeUInt16LE(dosTime, 10);
+    header.writeUInt16LE(dosDate, 12);
+    header.writeUInt32LE(crc, 14);
+    header.writeUInt32LE(compressed.length, 18);
+    header.writeUInt32LE(content.length, 22);
+    header.writeUInt16LE(nameBytes.length, 26);
+
+    const directoryEntry = Buffer.alloc(46);
+
+    directoryEntry.writeUInt32LE(CENTRAL_DIRECTORY_ENTRY, 0);
+    directoryEntry.writeUInt16LE(20, 4);
+    directoryEntry.writeUInt16LE(20, 6);
+    directoryEntry.writeUInt16LE(0x0800, 8);
+    directoryEntry.writeUInt16LE(8, 10);
+    directoryEntry.writeUInt16LE(dosTime, 12);
+    directoryEntry.writeUInt16LE(dosDate, 14);
+    directoryEntry.writeUInt32LE(crc, 16);
+    directoryEntry.writeUInt32LE(compressed.length, 20);
+    directoryEntry.writeUInt32LE(content.length, 24);
+    directoryEntry.writeUInt16LE(nameBytes.length, 28);
+    directoryEntry.writeUInt32LE(offset, 42);
+
+    localParts.push(header, nameBytes, compressed);
+    directoryParts.push(directoryEntry, nameBytes);
+    offset += header.length + nameBytes.length + compressed.length;
+  });
+
+  const directory = Buffer.concat(directoryParts);
+  const end = Buffer.alloc(22);
+
+  end.writeUInt32LE(END_OF_CENTRAL_DIRECTORY, 0);
+  end.writeUInt16LE(entries.size, 8);
+  end.writeUInt16LE(entries.size, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, directory, end]);
+}
@@ -0,0 +1,86 @@
+/**
+ * Client helpers for uploads processed in the background.
+ *
+ * POST /api/knowledge/vectorize answers with a job ID straight away; these
+ * helpers poll GET /api/knowledge/jobs/:id until the job finishes and describe
+ * its stage for the UploadProgress component.
+ */
+
+import type { IngestJob } from '@/app/lib/ingest-jobs';
+import type { DuplicateMatch } from '@/app/lib/document-fingerprint';
+
+export type { DuplicateMatch, IngestJob };
+
+// How often a running job is polled
+const POLL_INTERVAL_MS = 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Describes a job's current step for display, e.g. "Embedding 12/40 chunks"
+ * @param job The job as returned by the jobs endpoint
+ */
+export function describeIngestJob(job: IngestJob): string {
+  if (job.status === 'completed') {
+    return 'Indexed';
+  }
+
+  if (job.status === 'failed') {
+    return 'Failed';
+  }
+
+  if (job.status === 'queued') {
+    return 'Waiting to be processed';
+  }
+
+  switch (job.stage) {
+    case 'saved':
+      return 'Extracting text';
+    case 'extracted':
+      return 'Splitting into chunks';
+    case 'chunked':
+      return `Embedding ${job.embeddedChunks}/${job.totalChunks} chunks`;
+    case 'embedded':
+      return 'Indexing';
+    default:
+      return 'Processing';
+  }
+}
+
+/**
+ * The document an upload was rejected as a duplicate of, if it was
+ * @param job The finished job
+ */
+export function rejectedDuplicateOf(job: IngestJob): DuplicateMatch | null {
+  return job.status === 'failed' && job.errorStatus === 409 && job.duplicates?.length ? job.duplicates[0] : null;
+}
+
+/**
+ * Polls a job until it completes or fails, reporting every state along the way
+ * @param jobId The job ID returned by the upload
+ * @param onUpdate Called with each polled state
+ * @returns The final state of the job
+ */
+export async function waitForIngestJob(
+  jobId: string,
+  onUpdate: (job: IngestJob) => void = () => undefined
+): Promise<IngestJob> {
+  for (;;) {
+    const response = await fetch(`/api/knowledge/jobs/${encodeURIComponent(jobId)}`);
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to read upload progress');
+    }
+
+    const job = data.job as IngestJob;
+
+    onUpdate(job);
+
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return job;
+    }
+
+    await sleep(POLL_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,190 @@
+/**
+ * Client helpers for streamed answers from /api/openai and /api/knowledge/query.
+ *
+ * The routes send server-sent events (`token`, `sources`, `done`, `error`);
+ * these helpers read them and hand complete sentences to a callback as soon as
+ * they are available, so the avatar can start speaking before the answer ends.
+ */
+
+export interface StreamHandlers {
+  // Every piece of text as it arrives
+  onToken?: (text: string) => void;
+  // Complete sentences, cleaned up for speech
+  onSentence?: (sentence: string) => void;
+  // Any other event, e.g. `sources` from the knowledge query route
+  onEvent?: (event: string, data: any) => void;
+}
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = /(?:\b(?:e\.g|i\.e|etc|vs|approx|dr|mr|mrs|ms|inc|ltd)\.)$/i;
+
+// Pieces shorter than this are joined with the next sentence to avoid choppy speech
+const MIN_SENTENCE_LENGTH = 20;
+
+/**
+ * Strips markup that should not be read aloud: citation markers, bullet
+ * symbols and Markdown emphasis or headings
+ * @param text The text to clean
+ * @returns Text suitable for the avatar to speak
+ */
+export function toSpeakableText(text: string): string {
+  return text
+    .replace(/\[\d+(?:\s*[,\-–]\s*\d+)*\]/g, '')
+    .replace(/^\s*(?:[•\-*]|\d+[.)]|#+)\s+/gm, '')
+    .replace(/[*_`]+/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/ ([.,;:!?])/g, '$1')
+    .trim();
+}
+
+/**
+ * Accumulates streamed text and splits it into complete sentences. A sentence
+ * ends at ., ! or ? followed by whitespace, or at a line break (bullet lists).
+ */
+export class SentenceSplitter {
+  private buffer = '';
+
+  push(text: string): string[] {
+    this.buffer += text;
+
+    const sentences: string[] = [];
+    const boundary = /[.!?](?=\s)|\n/g;
+    let start = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = boundary.exec(this.buffer)) !== null) {
+      const end = match.index + match[0].length;
+      const candidate = this.buffer.slice(start, end);
+
+      if (ABBREVIATIONS.test(candidate.trim()) || toSpeakableText(candidate).length < MIN_SENTENCE_LENGTH) {
+        continue;
+      }
+
+      sentences.push(toSpeakableText(candidate));
+      start = end;
+    }
+
+    this.buffer = this.buffer.slice(start);
+
+    return sentences;
+  }
+
+  // Return whatever is left once the stream has ended
+  flush(): string[] {
+    const rest = toSpeakableText(this.buffer);
+
+    this.buffer = '';
+
+    return rest ? [rest] : [];
+  }
+}
+
+/**
+ * Parses a server-sent events body and calls onEvent for each event
+ * @param response A fetch response with a text/event-stream body
+ * @param onEvent Called with the event name and its parsed JSON data
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: any) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error('Response has no body to stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (block: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+
+    for (const line of block.split('\n')) {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trim());
+      }
+    }
+
+    if (dataLines.length > 0) {
+      onEvent(event, JSON.parse(dataLines.join('\n')));
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+    let separator = buffer.indexOf('\n\n');
+
+    while (separator !== -1) {
+      dispatch(buffer.slice(0, separator));
+      buffer = buffer.slice(separator + 2);
+      separator = buffer.indexOf('\n\n');
+    }
+  }
+
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+}
+
+/**
+ * Reads an answer response, streamed or not, feeding sentences to the handlers
+ * as they complete. Plain JSON responses (e.g. the fallback route) are split
+ * into sentences in one go.
+ * @param response The fetch response from an answer route
+ * @param handlers Callbacks for tokens, sentences and other events
+ * @returns The `done` payload, or the JSON body for non-streamed responses
+ */
+export async function readAnswerStream(response: Response, handlers: StreamHandlers = {}): Promise<any> {
+  const splitter = new SentenceSplitter();
+  const emit = (sentences: string[]) => sentences.forEach(sentence => handlers.onSentence?.(sentence));
+
+  if (!(response.headers.get('content-type') || '').includes('text/event-stream')) {
+    const data = await response.json();
+
+    if (typeof data.answer === 'string') {
+      handlers.onToken?.(data.answer);
+      emit(splitter.push(data.answer));
+      emit(splitter.flush());
+    }
+
+    return data;
+  }
+
+  let result: any = null;
+  let streamError: string | null = null;
+
+  await readEventStream(response, (event, data) => {
+    if (event === 'token') {
+      handlers.onToken?.(data.text);
+      emit(splitter.push(data.text));
+    } else if (event === 'done') {
+      result = data;
+    } else if (event === 'error') {
+      streamError = data.error || 'Streaming failed';
+    } else {
+      handlers.onEvent?.(event, data);
+    }
+  });
+
+  emit(splitter.flush());
+
+  if (streamError) {
+    throw new Error(streamError);
+  }
+
+  if (!result) {
+    throw new Error('The answer stream ended unexpectedly');
+  }
+
+  return result;
+}
@@ -11,12 +11,20 @@ import { useConversationState } from "../logic/useConversationState";
 import { MessageSender, useStreamingAvatarContext } from "../logic/context";
 import { containsCommand, processUserMessage } from "@/app/utils/commandPrompting";
 import { cleanRepetitiveText } from "@/app/utils/textUtils";
+import { readAnswerStream } from "@/app/utils/streamingAnswer";
 
 export const TextInput: React.FC = () => {
-  const { sendMessage, sendMessageSync, repeatMessage, repeatMessageSync } =
-    useTextChat();
+  const {
+    sendMessage,
+    sendMessageSync,
+    repeatMessage,
+    repeatMessageSync,
+    queueSentence,
+    finishSpeech,
+    cancelSpeech,
+  } = useTextChat();
   const { startListening, stopListening } = useConversationState();
-  const { messages, handleUserTalkingMessage, handleStreamingTalkingMessage, handleEndMessage } = useStreamingAvatarContext();
+  const { messages, handleUserTalkingMessage, handleStreamingTalkingMessage, handleEndMessage, knowledgeFilter, setKnowledgeFilter } = useStreamingAvatarContext();
   
   // Log the current messages for debugging
   useEffect(() => {
@@ -36,6 +44,19 @@ export const TextInput: React.FC = () => {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   // Store the thread ID for conversation continuity
   const [threadId, setThreadId] = useState<string | null>(null);
+  // Knowledge base categories the user can restrict answers to
+  const [knowledgeCategories, setKnowledgeCategories] = useState<string[]>([]);
+
+  // Load the available categories from the processed documents
+  useEffect(() => {
+    fetch('/api/knowledge/vectorize')
+      .then(response => response.json())
+      .then(data => {
+        const categories = (data.documents || []).map((doc: { namespace: string }) => doc.namespace.split('_')[0]);
+        setKnowledgeCategories(Array.from(new Set<string>(categories)).sort());
+      })
+      .catch(error => console.warn("Could not load knowledge base categories:", error));
+  }, []);
 
   // Helper function to add messages to the conversation history
   const addUserMessage = useCallback((text: string) => {
@@ -105,6 +126,9 @@ export const TextInput: React.FC = () => {
     setIsLoading(true);
     
     try {
+      // A new question replaces whatever is left of the previous answer
+      cancelSpeech();
+      
       // Add user message to conversation history - use the original message for display
       addUserMessage(message);
       
@@ -162,7 +186,9 @@ export const TextInput: React.FC = () => {
             body: JSON.stringify({ 
               question: cleanedMessage,
               useRAG: true, // Enable RAG by default
-              threadId: threadId // Pass the thread ID if we have one
+              threadId: threadId, // Pass the thread ID if we have one
+              filters: knowledgeFilter, // Restrict retrieval to the selected category
+              stream: true // Stream tokens so the avatar can start speaking early
             }),
           });
           
@@ -218,8 +244,14 @@ export const TextInput: React.FC = () => {
             throw new Error(errorData.error || `API returned status ${response.status}`);
           }
           
-          // Get the data from the response or use the fallback data if it was returned
-          const data = await response.json();
+          // Read the streamed answer, queueing each sentence for speech as soon as it is complete
+          let queuedSentences = 0;
+          const data = await readAnswerStream(response, {
+            onSentence: (sentence) => {
+              queuedSentences++;
+              queueSentence(sentence);
+            },
+          });
           
           // Check if this is fallback data returned from the 502 error handler
           const isFallbackData = data.fallback === true;
@@ -259,6 +291,13 @@ export const TextInput: React.FC = () => {
           try {
             console.log(`Avatar speaking AI response (${data.answer.length} chars) using ${TaskType.REPEAT} mode`);
             
+            // Streamed sentences are already queued; the queue grows the history entry as it speaks
+            if (queuedSentences > 0) {
+              finishSpeech();
+              console.log(`Avatar speaking the response as ${queuedSentences} queued sentences`);
+              return;
+            }
+            
             // We have two options:
             // 1. Add the message to history and then speak it with skipMessageHistory=true
             // 2. Speak it without adding to history and let the SDK events handle it
@@ -292,6 +331,9 @@ export const TextInput: React.FC = () => {
         } catch (apiError: any) {
           console.error('Error with OpenAI API:', apiError);
           
+          // Stop any part of the answer that was still queued
+          cancelSpeech();
+          
           // Set error message if not already set
           if (!errorMessage) {
             setErrorMessage(apiError.message || "An error occurred with the AI service");
@@ -364,6 +406,10 @@ export const TextInput: React.FC = () => {
     useAI,
     addUserMessage,
     addAIMessage,
+    knowledgeFilter,
+    queueSentence,
+    finishSpeech,
+    cancelSpeech,
   ]);
 
   useEffect(() => {
@@ -499,6 +545,17 @@ export const TextInput: React.FC = () => {
   return (
     <div className="flex flex-col gap-2 w-full">
       <div className="flex flex-row gap-2 items-center justify-end">
+        {knowledgeCategories.length > 0 && (
+          <div className="w-48">
+            <Select
+              isSelected={(option) => (knowledgeFilter?.categories?.[0] || "") === option}
+              options={["", ...knowledgeCategories]}
+              renderOption={(option) => option || "All documents"}
+              value={knowledgeFilter?.categories?.[0] || "All documents"}
+              onSelect={(option) => setKnowledgeFilter(option ? { categories: [option] } : undefined)}
+            />
+          </div>
+        )}
         <div className="flex flex-row gap-2">
           <Button 
             onClick={resetConversation} 
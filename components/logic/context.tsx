@@ -8,6 +8,8 @@ import StreamingAvatar, {
 } from "@heygen/streaming-avatar";
 import React, { useRef, useState } from "react";
 
+import { readAnswerStream } from "@/app/utils/streamingAnswer";
+
 export enum StreamingAvatarSessionState {
   INACTIVE = "inactive",
   CONNECTING = "connecting",
@@ -25,6 +27,27 @@ export interface Message {
   content: string;
 }
 
+// Sentences waiting to be spoken, shared so any component can cancel them
+export interface SpeechQueue {
+  pending: string[];
+  // True while a sentence is being spoken
+  running: boolean;
+  // True once the current answer has no more sentences coming
+  finished: boolean;
+  // Incremented on cancel so an in-flight drain loop stops
+  generation: number;
+  spokenCount: number;
+}
+
+// Restricts which knowledge base documents the assistant retrieves from
+export interface KnowledgeFilter {
+  documentIds?: string[];
+  categories?: string[];
+  fileTypes?: string[];
+  uploadedAfter?: string;
+  uploadedBefore?: string;
+}
+
 type StreamingAvatarContextProps = {
   avatarRef: React.MutableRefObject<StreamingAvatar | null>;
   basePath?: string;
@@ -64,8 +87,21 @@ type StreamingAvatarContextProps = {
 
   connectionQuality: ConnectionQuality;
   setConnectionQuality: (connectionQuality: ConnectionQuality) => void;
+
+  knowledgeFilter: KnowledgeFilter | undefined;
+  setKnowledgeFilter: (knowledgeFilter: KnowledgeFilter | undefined) => void;
+
+  speechQueueRef: React.MutableRefObject<SpeechQueue>;
 };
 
+const createSpeechQueue = (): SpeechQueue => ({
+  pending: [],
+  running: false,
+  finished: true,
+  generation: 0,
+  spokenCount: 0,
+});
+
 const StreamingAvatarContext = React.createContext<StreamingAvatarContextProps>(
   {
     avatarRef: { current: null },
@@ -92,6 +128,9 @@ const StreamingAvatarContext = React.createContext<StreamingAvatarContextProps>(
     setIsAvatarTalking: () => {},
     connectionQuality: ConnectionQuality.UNKNOWN,
     setConnectionQuality: () => {},
+    knowledgeFilter: undefined,
+    setKnowledgeFilter: () => {},
+    speechQueueRef: { current: createSpeechQueue() },
   },
 );
 
@@ -124,7 +163,10 @@ const useStreamingAvatarVoiceChatState = () => {
   };
 };
 
-const useStreamingAvatarMessageState = (avatarRef: React.MutableRefObject<StreamingAvatar | null>) => {
+const useStreamingAvatarMessageState = (
+  avatarRef: React.MutableRefObject<StreamingAvatar | null>,
+  knowledgeFilterRef: React.MutableRefObject<KnowledgeFilter | undefined>,
+) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const currentSenderRef = useRef<MessageSender | null>(null);
   
@@ -330,7 +372,9 @@ const useStreamingAvatarMessageState = (avatarRef: React.MutableRefObject<Stream
         },
         body: JSON.stringify({ 
           question: message,
-          useRAG: true // Enable RAG by default
+          useRAG: true, // Enable RAG by default
+          filters: knowledgeFilterRef.current,
+          stream: true, // Stream tokens so speech starts before the answer is complete
         }),
       });
       
@@ -340,7 +384,18 @@ const useStreamingAvatarMessageState = (avatarRef: React.MutableRefObject<Stream
         throw new Error(`API returned status ${response.status}`);
       }
       
-      const data = await response.json();
+      // Speak each sentence as soon as it has streamed in
+      let spokenSentences = 0;
+      const data = await readAnswerStream(response, {
+        onSentence: (sentence) => {
+          spokenSentences++;
+          avatarRef.current?.speak({
+            text: sentence,
+            taskType: TaskType.REPEAT,
+            taskMode: TaskMode.ASYNC,
+          });
+        },
+      });
       
       if (data.error) {
         console.error('Error from OpenAI API:', data.error);
@@ -378,7 +433,8 @@ const useStreamingAvatarMessageState = (avatarRef: React.MutableRefObject<Stream
         // Speak the message through the avatar WITHOUT adding to message history again
         // This is the key fix - we're using the avatar's speak method directly
         // instead of going through sendMessage which would add the message again
-        if (avatarRef.current) {
+        // (streamed answers were already spoken sentence by sentence)
+        if (avatarRef.current && spokenSentences === 0) {
           avatarRef.current.speak({
             text: data.answer,
             taskType: TaskType.REPEAT,
@@ -564,6 +620,21 @@ const useStreamingAvatarConnectionQualityState = () => {
   return { connectionQuality, setConnectionQuality };
 };
 
+const useStreamingAvatarKnowledgeState = () => {
+  const [knowledgeFilter, setKnowledgeFilterState] = useState<
+    KnowledgeFilter | undefined
+  >(undefined);
+  // Voice chat handlers are registered once, so they read the filter from a ref
+  const knowledgeFilterRef = useRef<KnowledgeFilter | undefined>(undefined);
+
+  const setKnowledgeFilter = (filter: KnowledgeFilter | undefined) => {
+    knowledgeFilterRef.current = filter;
+    setKnowledgeFilterState(filter);
+  };
+
+  return { knowledgeFilter, setKnowledgeFilter, knowledgeFilterRef };
+};
+
 export const StreamingAvatarProvider = ({
   children,
   basePath,
@@ -572,9 +643,15 @@ export const StreamingAvatarProvider = ({
   basePath?: string;
 }) => {
   const avatarRef = React.useRef<StreamingAvatar>(null);
+  const speechQueueRef = useRef<SpeechQueue>(createSpeechQueue());
   const voiceChatState = useStreamingAvatarVoiceChatState();
   const sessionState = useStreamingAvatarSessionState();
-  const messageState = useStreamingAvatarMessageState(avatarRef);
+  const { knowledgeFilterRef, ...knowledgeState } =
+    useStreamingAvatarKnowledgeState();
+  const messageState = useStreamingAvatarMessageState(
+    avatarRef,
+    knowledgeFilterRef,
+  );
   const listeningState = useStreamingAvatarListeningState();
   const talkingState = useStreamingAvatarTalkingState();
   const connectionQualityState = useStreamingAvatarConnectionQualityState();
@@ -584,12 +661,14 @@ export const StreamingAvatarProvider = ({
       value={{
         avatarRef,
         basePath,
+        speechQueueRef,
         ...voiceChatState,
         ...sessionState,
         ...messageState,
         ...listeningState,
         ...talkingState,
         ...connectionQualityState,
+        ...knowledgeState,
       }}
     >
       {children}
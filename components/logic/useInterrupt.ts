@@ -1,14 +1,18 @@
 import { useCallback } from "react";
 
 import { useStreamingAvatarContext } from "./context";
+import { useTextChat } from "./useTextChat";
 
 export const useInterrupt = () => {
   const { avatarRef } = useStreamingAvatarContext();
+  const { cancelSpeech } = useTextChat();
 
   const interrupt = useCallback(() => {
     if (!avatarRef.current) return;
+    // Cancelling queued speech also interrupts the sentence being spoken
+    if (cancelSpeech()) return;
     avatarRef.current.interrupt();
-  }, [avatarRef]);
+  }, [avatarRef, cancelSpeech]);
 
   return { interrupt };
 };
@@ -4,8 +4,16 @@ import { useCallback } from "react";
 import { useStreamingAvatarContext } from "./context";
 import { MessageSender } from "./context";
 
+import { SentenceSplitter } from "@/app/utils/streamingAnswer";
+
 export const useTextChat = () => {
-  const { avatarRef, messages, handleStreamingTalkingMessage, handleEndMessage } = useStreamingAvatarContext();
+  const {
+    avatarRef,
+    messages,
+    handleStreamingTalkingMessage,
+    handleEndMessage,
+    speechQueueRef,
+  } = useStreamingAvatarContext();
 
   const sendMessage = useCallback(
     (message: string) => {
@@ -159,10 +167,141 @@ export const useTextChat = () => {
     [avatarRef, handleStreamingTalkingMessage, handleEndMessage],
   );
 
+  // Close the avatar's history entry once the queued answer has been spoken
+  const endSpokenMessage = useCallback(() => {
+    speechQueueRef.current.spokenCount = 0;
+    handleEndMessage({
+      detail: {
+        type: StreamingEvents.AVATAR_END_MESSAGE,
+        task_id: `avatar-${Date.now()}`
+      }
+    });
+  }, [speechQueueRef, handleEndMessage]);
+
+  // Speak queued sentences one at a time. Each sentence is appended to the
+  // avatar's history entry as it starts, so the history matches what was said.
+  const drainSpeechQueue = useCallback(async () => {
+    const queue = speechQueueRef.current;
+
+    if (queue.running) return;
+
+    const generation = queue.generation;
+
+    queue.running = true;
+
+    try {
+      while (queue.pending.length > 0 && queue.generation === generation && avatarRef.current) {
+        const sentence = queue.pending.shift() as string;
+
+        handleStreamingTalkingMessage({
+          detail: {
+            message: queue.spokenCount > 0 ? ` ${sentence}` : sentence,
+            type: StreamingEvents.AVATAR_TALKING_MESSAGE,
+            task_id: `avatar-${Date.now()}`
+          }
+        });
+        queue.spokenCount++;
+
+        try {
+          // SYNC resolves when the sentence has been spoken, keeping the order
+          await avatarRef.current.speak({
+            text: sentence,
+            taskType: TaskType.REPEAT,
+            taskMode: TaskMode.SYNC,
+          });
+        } catch (error) {
+          console.error("Error speaking queued sentence:", error);
+        }
+      }
+    } finally {
+      queue.running = false;
+    }
+
+    if (queue.generation !== generation) {
+      // Cancelled mid-sentence; sentences queued since then belong to a new answer
+      if (queue.pending.length > 0 && avatarRef.current) {
+        drainSpeechQueue();
+      }
+
+      return;
+    }
+
+    if (queue.finished && queue.pending.length === 0 && queue.spokenCount > 0) {
+      endSpokenMessage();
+    }
+  }, [avatarRef, speechQueueRef, handleStreamingTalkingMessage, endSpokenMessage]);
+
+  // Queue one complete sentence; the first one after a finished answer starts a new entry
+  const queueSentence = useCallback(
+    (sentence: string) => {
+      const queue = speechQueueRef.current;
+
+      if (!sentence.trim()) return;
+
+      if (queue.finished) {
+        queue.finished = false;
+        queue.spokenCount = 0;
+      }
+
+      queue.pending.push(sentence.trim());
+      drainSpeechQueue();
+    },
+    [speechQueueRef, drainSpeechQueue],
+  );
+
+  // Mark that no more sentences are coming for the current answer
+  const finishSpeech = useCallback(() => {
+    const queue = speechQueueRef.current;
+
+    queue.finished = true;
+
+    if (!queue.running && queue.pending.length === 0 && queue.spokenCount > 0) {
+      endSpokenMessage();
+    }
+  }, [speechQueueRef, endSpokenMessage]);
+
+  // Split a whole answer into sentences and speak them in order
+  const queueSpeech = useCallback(
+    (text: string) => {
+      const splitter = new SentenceSplitter();
+
+      [...splitter.push(text), ...splitter.flush()].forEach(queueSentence);
+      finishSpeech();
+    },
+    [queueSentence, finishSpeech],
+  );
+
+  // Drop the sentences not yet spoken and stop the current one. The history
+  // entry keeps only what was actually said. Returns whether anything was cancelled.
+  const cancelSpeech = useCallback((): boolean => {
+    const queue = speechQueueRef.current;
+    const wasSpeaking = queue.running || queue.pending.length > 0;
+
+    queue.generation++;
+    queue.pending = [];
+    queue.finished = true;
+
+    if (!wasSpeaking) return false;
+
+    avatarRef.current?.interrupt().catch((error) => {
+      console.error("Error interrupting avatar:", error);
+    });
+
+    if (queue.spokenCount > 0) {
+      endSpokenMessage();
+    }
+
+    return true;
+  }, [avatarRef, speechQueueRef, endSpokenMessage]);
+
   return {
     sendMessage,
     sendMessageSync,
     repeatMessage,
     repeatMessageSync,
+    queueSentence,
+    queueSpeech,
+    finishSpeech,
+    cancelSpeech,
   };
 };
@@ -0,0 +1,42 @@
+// Background worker for uploads queued by /api/knowledge/vectorize
+//
+// The "-background" suffix makes Netlify answer the caller with 202 straight
+// away and keep this invocation running for up to 15 minutes, so extraction and
+// embedding aren't cut off when the upload response is sent. Point
+// INGEST_WORKER_URL at https://<site>/.netlify/functions/ingest-background to
+// use it; the upload must be in shared storage (STORAGE_BACKEND=s3).
+
+import { initializeStorage } from '../../../app/lib/init-storage';
+import { runQueuedIngestJob } from '../../../app/lib/ingest-jobs';
+
+export async function handler(event: { body: string | null }) {
+  let jobId: unknown;
+
+  try {
+    ({ jobId } = JSON.parse(event.body || '{}') || {});
+  } catch {
+    console.warn('[INGEST-BACKGROUND] Request body is not valid JSON');
+
+    return { statusCode: 400 };
+  }
+
+  if (typeof jobId !== 'string' || !jobId) {
+    console.warn('[INGEST-BACKGROUND] Request body has no jobId');
+
+    return { statusCode: 400 };
+  }
+
+  await initializeStorage();
+
+  const job = await runQueuedIngestJob(jobId);
+
+  if (!job) {
+    console.warn(`[INGEST-BACKGROUND] No queued job ${jobId}`);
+
+    return { statusCode: 404 };
+  }
+
+  console.log(`[INGEST-BACKGROUND] Job ${jobId} ${job.status}`);
+
+  return { statusCode: 200 };
+}
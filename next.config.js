@@ -3,6 +3,10 @@ const nextConfig = {
   // Enable static optimization where possible
   output: 'standalone',
   
+  // Load pdfjs and tesseract.js from node_modules at runtime so they can find their worker scripts,
+  // and the canvas package so its native binary isn't bundled
+  serverExternalPackages: ['pdfjs-dist', 'tesseract.js', '@napi-rs/canvas'],
+  
   // Configure environment variables
   env: {
     // Fallback values for environment variables (will be overridden by actual env vars)
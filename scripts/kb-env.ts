@@ -0,0 +1,11 @@
+// Environment for the kb CLI
+//
+// Loads .env.local and .env, the same files the server reads. The app's
+// modules read settings such as OPENAI_EMBEDDING_MODEL or OCR_* into constants
+// when they are first imported, so kb.ts imports this module before any other.
+
+import { existsSync } from 'fs';
+
+import { config as loadEnv } from 'dotenv';
+
+['.env.local', '.env'].filter(file => existsSync(file)).forEach(file => loadEnv({ path: file }));
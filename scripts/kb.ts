@@ -0,0 +1,553 @@
+// Knowledge base command line tool
+//
+// Adds, lists and removes knowledge base documents with the same pipeline as
+// uploads through /api/knowledge/vectorize (extraction, chunking, duplicate
+// checks, embedding and indexing), so documents added here are indistinguishable
+// from uploaded ones.
+//
+// Usage:
+//   npm run kb -- ingest <dir|zip> [--category <name>] [--category-from-folder]
+//                [--include <glob>]... [--exclude <glob>]... [--on-duplicate reject|warn|version]
+//                [--provider openai|local] [--dry-run]
+//   npm run kb -- list [--all] [--category <name>] [--json]
+//   npm run kb -- delete <documentId> [--version <n>]
+//   npm run kb -- reindex [--reembed] [--provider openai|local]
+//   npm run kb -- export [<file>]
+//   npm run kb -- import <file> [--replace] [--on-model-mismatch reject|keep|reembed] [--provider openai|local]
+//
+// Documents are kept in the blob storage the server uses (STORAGE_BACKEND), so
+// with S3 settings in .env.local the commands work on the bucket. Every command
+// takes --storage <dir> to use a local documents directory instead, and
+// --verbose to show the pipeline's log messages.
+
+// Must stay first: it loads .env.local and .env before the app's modules read their settings
+import './kb-env';
+
+import { readdir, readFile, stat, writeFile } from 'fs/promises';
+import { basename, extname, join, relative, resolve, sep } from 'path';
+
+import { getBlobStorage } from '../app/lib/blob-storage';
+import { processDocument } from '../app/lib/document-ingest';
+import { ExtractionReport, getDocumentExtractor } from '../app/lib/document-extractor';
+import { DuplicateMatch, DuplicatePolicy, parseDuplicatePolicy } from '../app/lib/document-fingerprint';
+import { createEmbeddingProvider, EmbeddingProvider, parseEmbeddingProviderName } from '../app/lib/embedding-provider';
+import { createCachedEmbeddingProvider } from '../app/lib/embedding-cache';
+import { createUploadId } from '../app/lib/ingest-checkpoint';
+import { exportBundle, importBundle, parseModelMismatchPolicy, readBundle } from '../app/lib/knowledge-bundle';
+import { startReembedJob } from '../app/lib/reembed-job';
+import { DocumentMetadata, documentIdOf, documentVersionOf, getVectorStore, isActiveVersion, StoredDocument } from '../app/lib/vector-store';
+import { readZipEntries } from '../app/lib/zip-utils';
+
+interface CliArguments {
+  command: string;
+  positional: string[];
+  options: Map<string, string[]>;
+}
+
+// A file found in the folder or archive being ingested
+interface SourceFile {
+  // Path inside the folder or archive, with forward slashes
+  path: string;
+  read(): Promise<Buffer>;
+}
+
+type IngestOutcome = 'indexed' | 'new version' | 'duplicate' | 'failed';
+
+interface IngestReportRow {
+  path: string;
+  category: string;
+  outcome: IngestOutcome;
+  chunks?: number;
+  documentId?: string;
+  note?: string;
+  seconds: number;
+}
+
+const FLAGS = ['all', 'json', 'dry-run', 'verbose', 'reembed', 'category-from-folder', 'replace'];
+
+function parseArguments(argv: string[]): CliArguments {
+  const [command = 'help', ...rest] = argv;
+  const positional: string[] = [];
+  const options = new Map<string, string[]>();
+
+  for (let i = 0; i < rest.length; i++) {
+    if (!rest[i].startsWith('--')) {
+      positional.push(rest[i]);
+      continue;
+    }
+
+    const name = rest[i].slice(2);
+    const value = FLAGS.includes(name) ? 'true' : rest[++i];
+
+    if (value === undefined) {
+      throw new Error(`Missing value for --${name}`);
+    }
+
+    options.set(name, [...(options.get(name) || []), value]);
+  }
+
+  return { command, positional, options };
+}
+
+function option(args: CliArguments, name: string): string | undefined {
+  const values = args.options.get(name);
+
+  return values ? values[values.length - 1] : undefined;
+}
+
+function flag(args: CliArguments, name: string): boolean {
+  return args.options.has(name);
+}
+
+/**
+ * Convert a glob to a regular expression. `*` and `?` stay within a folder,
+ * `**` spans folders and `{a,b}` matches either. A pattern without a slash
+ * matches file names in any folder.
+ */
+function globToRegExp(glob: string): RegExp {
+  let pattern = '';
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*' && glob[i + 1] === '*') {
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      pattern += '(?:';
+    } else if (char === '}') {
+      pattern += ')';
+    } else if (char === ',' && pattern.includes('(?:')) {
+      pattern += '|';
+    } else {
+      pattern += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(glob.includes('/') ? `^${pattern}$` : `(?:^|/)${pattern}$`, 'i');
+}
+
+// Files in a folder, recursively; hidden files and folders are skipped
+async function folderSources(root: string, folder = root): Promise<SourceFile[]> {
+  const sources: SourceFile[] = [];
+
+  for (const entry of await readdir(folder, { withFileTypes: true })) {
+    const fullPath = join(folder, entry.name);
+
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+
+    if (entry.isDirectory()) {
+      sources.push(...await folderSources(root, fullPath));
+    } else if (entry.isFile()) {
+      sources.push({ path: relative(root, fullPath).split(sep).join('/'), read: () => readFile(fullPath) });
+    }
+  }
+
+  return sources;
+}
+
+// Files in a zip archive; macOS resource forks and hidden files are skipped
+async function zipSources(archivePath: string): Promise<SourceFile[]> {
+  const entries = readZipEntries(
+    await readFile(archivePath),
+    name => !name.startsWith('__MACOSX/') && !name.split('/').some(part => part.startsWith('.'))
+  );
+
+  return Array.from(entries.entries()).map(([path, content]) => ({ path, read: async () => content }));
+}
+
+// Supported files of a folder or zip archive that pass the glob filters, in path order
+async function collectSources(source: string, include: string[], exclude: string[]): Promise<SourceFile[]> {
+  const sourceStats = await stat(source);
+  const sources = sourceStats.isDirectory()
+    ? await folderSources(source)
+    : extname(source).toLowerCase() === '.zip'
+      ? await zipSources(source)
+      : null;
+
+  if (!sources) {
+    throw new Error(`${source} is neither a folder nor a .zip archive`);
+  }
+
+  const includePatterns = include.map(globToRegExp);
+  const excludePatterns = exclude.map(globToRegExp);
+
+  return sources
+    .filter(file => getDocumentExtractor(file.path))
+    .filter(file => includePatterns.length === 0 || includePatterns.some(pattern => pattern.test(file.path)))
+    .filter(file => !excludePatterns.some(pattern => pattern.test(file.path)))
+    .sort((a, b) => a.path.localeCompare(b.path));
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function sanitizeName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9._-]/g, '_');
+}
+
+// Category of a file: its top-level folder with --category-from-folder, otherwise --category
+function categoryOf(file: SourceFile, args: CliArguments): string {
+  const fallback = option(args, 'category') || 'general';
+  const folders = file.path.split('/').slice(0, -1);
+
+  return flag(args, 'category-from-folder') && folders.length > 0 ? sanitizeName(folders[0]).toLowerCase() : fallback;
+}
+
+function printTable(header: string[], rows: string[][]): void {
+  const widths = header.map((title, column) => Math.max(title.length, ...rows.map(row => (row[column] || '').length)));
+  const line = (cells: string[]) => cells.map((cell, column) => (cell || '').padEnd(widths[column])).join('  ').trimEnd();
+
+  console.log(line(header));
+  console.log(line(widths.map(width => '-'.repeat(width))));
+  rows.forEach(row => console.log(line(row)));
+}
+
+function createProvider(args: CliArguments): EmbeddingProvider {
+  const name = option(args, 'provider');
+
+  if (name && !parseEmbeddingProviderName(name)) {
+    throw new Error(`Unknown embedding provider: ${name}. Use openai or local`);
+  }
+
+  return createEmbeddingProvider(parseEmbeddingProviderName(name));
+}
+
+async function ingest(args: CliArguments): Promise<void> {
+  const [source] = args.positional;
+
+  if (!source) {
+    throw new Error('Usage: kb ingest <dir|zip> [--category <name>] [--include <glob>] [--exclude <glob>]');
+  }
+
+  const onDuplicateOption = option(args, 'on-duplicate');
+  const onDuplicate: DuplicatePolicy | undefined = parseDuplicatePolicy(onDuplicateOption);
+
+  if (onDuplicateOption && !onDuplicate) {
+    throw new Error(`Invalid --on-duplicate: ${onDuplicateOption}. Use reject, warn or version`);
+  }
+
+  const files = await collectSources(resolve(source), args.options.get('include') || [], args.options.get('exclude') || []);
+
+  if (files.length === 0) {
+    console.log(`No supported files found in ${source}`);
+
+    return;
+  }
+
+  if (flag(args, 'dry-run')) {
+    printTable(['File', 'Category'], files.map(file => [file.path, categoryOf(file, args)]));
+    console.log(`\n${plural(files.length, 'file')} would be ingested`);
+
+    return;
+  }
+
+  const embeddings = createCachedEmbeddingProvider(createProvider(args));
+  const storage = getBlobStorage();
+  const report: IngestReportRow[] = [];
+
+  console.log(`Ingesting ${plural(files.length, 'file')} with ${embeddings.model} embeddings into ${storage.location}\n`);
+
+  for (const [index, file] of files.entries()) {
+    const category = categoryOf(file, args);
+    const started = Date.now();
+    // Saved next to uploaded files, named the way the upload route names them
+    const fileKey = sanitizeName(`${category}_${Date.now()}_${basename(file.path)}`);
+    let extraction: ExtractionReport | undefined;
+    let duplicates: DuplicateMatch[] | undefined;
+    const row = (outcome: IngestOutcome, details: Partial<IngestReportRow>): IngestReportRow => ({
+      path: file.path,
+      category,
+      outcome,
+      seconds: (Date.now() - started) / 1000,
+      ...details,
+    });
+
+    process.stdout.write(`[${index + 1}/${files.length}] ${file.path} ... `);
+
+    try {
+      await storage.put(fileKey, await file.read());
+
+      const document = await processDocument(fileKey, category, embeddings, createUploadId(), update => {
+        extraction = update.extraction || extraction;
+        duplicates = update.duplicates || duplicates;
+      }, { onDuplicate });
+      const warnings = [
+        ...(extraction?.warnings || []).map(warning => warning.message),
+        ...(document.duplicates || []).map(match => `duplicates ${match.fileName}`),
+      ];
+
+      report.push(row(documentVersionOf(document) > 1 ? 'new version' : 'indexed', {
+        chunks: document.chunks,
+        documentId: documentIdOf(document),
+        note: warnings.join('; ') || undefined,
+      }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      await storage.delete(fileKey).catch(() => undefined);
+      report.push(duplicates && (onDuplicate || 'reject') === 'reject'
+        ? row('duplicate', { documentId: duplicates[0].documentId, note: `matches ${duplicates[0].fileName}` })
+        : row('failed', { note: message }));
+    }
+
+    console.log(report[report.length - 1].outcome);
+  }
+
+  console.log('');
+  printTable(
+    ['File', 'Category', 'Result', 'Chunks', 'Document', 'Time', 'Notes'],
+    report.map(entry => [
+      entry.path,
+      entry.category,
+      entry.outcome,
+      entry.chunks === undefined ? '' : String(entry.chunks),
+      entry.documentId || '',
+      `${entry.seconds.toFixed(1)}s`,
+      entry.note || '',
+    ])
+  );
+
+  const counts = (['indexed', 'new version', 'duplicate', 'failed'] as IngestOutcome[])
+    .map(outcome => [outcome, report.filter(entry => entry.outcome === outcome).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([outcome, count]) => `${count} ${outcome}`);
+
+  console.log(`\n${counts.join(', ')}`);
+
+  if (report.some(entry => entry.outcome === 'failed')) {
+    process.exitCode = 1;
+  }
+}
+
+// Category of a stored document; documents stored before it was recorded on the document only have it on their chunks
+function storedCategoryOf(document: StoredDocument): string | undefined {
+  return document.metadata.category || document.chunks[0]?.metadata?.category || undefined;
+}
+
+async function list(args: CliArguments): Promise<void> {
+  const store = getVectorStore();
+  const category = option(args, 'category');
+  const stored = await Promise.all((await store.listDocuments()).map(metadata => store.getDocument(metadata.id)));
+  const documents = stored
+    .filter((document): document is StoredDocument => document !== null)
+    .map(document => ({ ...document.metadata, category: storedCategoryOf(document) }))
+    .filter(document => flag(args, 'all') || isActiveVersion(document))
+    .filter(document => !category || document.category === category)
+    .sort((a, b) => documentIdOf(a).localeCompare(documentIdOf(b)) || documentVersionOf(a) - documentVersionOf(b));
+
+  if (flag(args, 'json')) {
+    console.log(JSON.stringify(documents, null, 2));
+
+    return;
+  }
+
+  if (documents.length === 0) {
+    console.log('No documents found');
+
+    return;
+  }
+
+  printTable(
+    ['Document', 'Version', 'Active', 'Category', 'Chunks', 'Created', 'File'],
+    documents.map((document: DocumentMetadata) => [
+      documentIdOf(document),
+      String(documentVersionOf(document)),
+      isActiveVersion(document) ? 'yes' : 'no',
+      document.category || '',
+      String(document.chunks),
+      document.createdAt ? new Date(document.createdAt).toISOString().slice(0, 16).replace('T', ' ') : '',
+      basename(document.fileName.replace(/\\/g, '/')),
+    ])
+  );
+  console.log(`\n${plural(documents.length, flag(args, 'all') ? 'version' : 'document')}`);
+}
+
+async function remove(args: CliArguments): Promise<void> {
+  const [documentId] = args.positional;
+  const versionOption = option(args, 'version');
+
+  if (!documentId) {
+    throw new Error('Usage: kb delete <documentId> [--version <n>]');
+  }
+
+  const store = getVectorStore();
+
+  if (versionOption !== undefined) {
+    const version = Number(versionOption);
+
+    if (!Number.isInteger(version) || version < 1) {
+      throw new Error(`Invalid version: ${versionOption}`);
+    }
+
+    if (!(await store.deleteVersion(documentId, version))) {
+      throw new Error(`Document ${documentId} has no version ${version}`);
+    }
+
+    console.log(`Deleted version ${version} of ${documentId}`);
+
+    return;
+  }
+
+  const versions = await store.listVersions(documentId);
+
+  if (!(await store.deleteDocument(documentId))) {
+    throw new Error(`Document ${documentId} not found`);
+  }
+
+  console.log(`Deleted ${documentId} (${plural(versions.length, 'version')})`);
+}
+
+// Rebuild the search indexes from the stored documents, after re-embedding them with --reembed
+async function reindex(args: CliArguments): Promise<void> {
+  const store = getVectorStore();
+
+  if (flag(args, 'reembed')) {
+    const provider = createCachedEmbeddingProvider(createProvider(args));
+
+    console.log(`Re-embedding documents with ${provider.model}...`);
+
+    const progress = await startReembedJob(provider, store).promise;
+
+    console.log(`Re-embedded ${progress.completedDocuments}/${progress.totalDocuments} documents (${progress.embeddedChunks} chunks)`);
+    progress.failedDocuments.forEach(failure => console.log(`  ${failure.documentId}: ${failure.error}`));
+
+    if (progress.status !== 'completed') {
+      process.exitCode = 1;
+    }
+  }
+
+  const report = await store.rebuildIndexes();
+  const graphs = Object.entries(report.vectorNodes).map(([model, nodes]) => `${model}: ${plural(nodes, 'vector')}`);
+
+  console.log(`Rebuilt the search indexes of ${plural(report.documents, 'document')} (${plural(report.keywordChunks, 'chunk')}${graphs.length > 0 ? `; ${graphs.join(', ')}` : ''})`);
+}
+
+// Write the whole knowledge base, with every version, to a bundle
+async function exportCommand(args: CliArguments): Promise<void> {
+  const { archive, manifest } = await exportBundle();
+  const fileName = args.positional[0] || `knowledge-base-${manifest.createdAt.slice(0, 10)}.zip`;
+
+  await writeFile(fileName, archive);
+  console.log(`Exported ${plural(manifest.documents, 'document version')} to ${fileName} (${Math.ceil(archive.length / 1024)} KB)`);
+  Object.entries(manifest.embeddingModels).forEach(([model, count]) => console.log(`  ${model}: ${plural(count, 'document')}`));
+}
+
+async function importCommand(args: CliArguments): Promise<void> {
+  const [fileName] = args.positional;
+  const policyOption = option(args, 'on-model-mismatch') || 'reject';
+  const onModelMismatch = parseModelMismatchPolicy(policyOption);
+
+  if (!fileName) {
+    throw new Error('Usage: kb import <file> [--replace] [--on-model-mismatch reject|keep|reembed]');
+  }
+
+  if (!onModelMismatch) {
+    throw new Error(`Invalid --on-model-mismatch: ${policyOption}. Use reject, keep or reembed`);
+  }
+
+  const bundle = readBundle(await readFile(fileName));
+
+  if (!bundle.valid) {
+    throw new Error(`Invalid knowledge base bundle:\n  ${bundle.errors.join('\n  ')}`);
+  }
+
+  const provider = createCachedEmbeddingProvider(createProvider(args));
+  const result = await importBundle(bundle, {
+    mode: flag(args, 'replace') ? 'replace' : 'merge',
+    onModelMismatch,
+    embeddingModel: provider.model,
+  });
+
+  if (result.status === 'rejected') {
+    throw new Error(result.message);
+  }
+
+  console.log(`Imported ${plural(result.documents, 'document')} (${plural(result.versions, 'version')}): ${result.added} added, ${result.replaced} replaced, ${result.removed} removed`);
+
+  if (onModelMismatch === 'reembed' && Object.keys(result.mismatchedModels).length > 0) {
+    console.log(`Re-embedding documents with ${provider.model}...`);
+
+    const progress = await startReembedJob(provider).promise;
+
+    console.log(`Re-embedded ${progress.completedDocuments}/${progress.totalDocuments} documents (${progress.embeddedChunks} chunks)`);
+    progress.failedDocuments.forEach(failure => console.log(`  ${failure.documentId}: ${failure.error}`));
+
+    if (progress.status !== 'completed') {
+      process.exitCode = 1;
+    }
+  } else if (Object.keys(result.mismatchedModels).length > 0) {
+    console.log(`Kept documents embedded with ${Object.keys(result.mismatchedModels).join(', ')}; run "kb reindex --reembed" before searching them with ${provider.model}`);
+  }
+}
+
+const USAGE = `Usage: kb <command> [options]
+
+Commands:
+  ingest <dir|zip>       Add the supported files of a folder or zip archive
+    --category <name>      Category of the files (default: general)
+    --category-from-folder Use each file's top-level folder as its category
+    --include <glob>       Only files matching the glob, e.g. "**/*.pdf" (repeatable)
+    --exclude <glob>       Skip files matching the glob (repeatable)
+    --on-duplicate <mode>  reject (default), warn or version
+    --provider <name>      Embedding provider: openai or local
+    --dry-run              List the files that would be ingested
+  list                   List documents
+    --all                  Include inactive versions
+    --category <name>      Only documents in this category
+    --json                 Print the documents' metadata as JSON
+  delete <documentId>    Delete a document with all its versions
+    --version <n>          Delete one version only
+  reindex                Rebuild the search indexes
+    --reembed              Re-embed documents with the current provider first
+  export [file]          Write every document, version and embedding to a bundle
+  import <file>          Add the documents of a bundle, replacing those with the same ID
+    --replace              Delete documents that aren't in the bundle
+    --on-model-mismatch    reject (default), keep or reembed documents embedded
+                           with another model than the current provider's
+
+Options:
+  --storage <dir>        Use a local documents directory instead of the
+                         configured storage (default: storage/documents)
+  --verbose              Show the pipeline's log messages`;
+
+async function main(): Promise<void> {
+  const args = parseArguments(process.argv.slice(2));
+  const commands: Record<string, (args: CliArguments) => Promise<void>> = {
+    ingest,
+    list,
+    delete: remove,
+    reindex,
+    export: exportCommand,
+    import: importCommand,
+  };
+
+  if (!commands[args.command]) {
+    console.log(USAGE);
+    process.exitCode = args.command === 'help' || args.command === '--help' ? 0 : 1;
+
+    return;
+  }
+
+  process.env.LOG_LEVEL = process.env.LOG_LEVEL || (flag(args, 'verbose') ? 'INFO' : 'WARN');
+  global.STORAGE_DIR = resolve(option(args, 'storage') || join('storage', 'documents'));
+
+  // A directory given on the command line is always used as local storage
+  if (option(args, 'storage')) {
+    process.env.STORAGE_BACKEND = 'local';
+  }
+
+  await commands[args.command](args);
+}
+
+main().catch(error => {
+  console.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+});
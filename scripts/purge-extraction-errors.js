@@ -0,0 +1,149 @@
+// Script to find and remove extraction error messages that were indexed as document content
+//
+// Older versions of extractTextFromPDF returned messages such as "[PDF EXTRACTION FAILED: ...]"
+// instead of throwing, and those messages were chunked and embedded like real text.
+//
+// Usage:
+//   node scripts/purge-extraction-errors.js            # report affected documents
+//   node scripts/purge-extraction-errors.js --purge    # remove them
+//   node scripts/purge-extraction-errors.js --dir /tmp/storage/documents
+//
+// Chunks made of error text are removed from their document; a document with nothing
+// else left is deleted. The search indexes notice the changed files and update
+// themselves the next time the server reads the knowledge base.
+
+const fs = require('fs').promises;
+const path = require('path');
+
+// Keep in sync with EXTRACTION_ERROR_TEXT in app/lib/document-extractor.ts
+const EXTRACTION_ERROR_TEXT = [
+  /^\[PDF EXTRACTION FAILED:/,
+  /^Error extracting text from PDF:/,
+  /^PDF file is empty \(0 bytes\)/,
+  /^PDF file could not be read\./,
+  /^PDF file does not exist or is not accessible:/,
+  /^No text content found in PDF$/,
+];
+
+function isExtractionErrorText(text) {
+  const trimmed = String(text || '').trim();
+
+  return EXTRACTION_ERROR_TEXT.some(pattern => pattern.test(trimmed));
+}
+
+function parseArgs(argv) {
+  const options = {
+    purge: false,
+    dir: path.join(process.cwd(), 'storage', 'documents'),
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === '--purge') {
+      options.purge = true;
+    } else if (argv[i] === '--dir' && argv[i + 1]) {
+      options.dir = path.resolve(argv[++i]);
+    } else {
+      throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  return options;
+}
+
+// Find the polluted chunks of every document file in the storage directory
+async function scanDocuments(dir) {
+  const files = (await fs.readdir(dir)).filter(file => file.endsWith('.json'));
+  const findings = [];
+
+  for (const file of files) {
+    const filePath = path.join(dir, file);
+    let data;
+
+    try {
+      data = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      console.warn(`Skipping ${file}: ${error.message}`);
+      continue;
+    }
+
+    if (!data || !Array.isArray(data.chunks)) {
+      continue;
+    }
+
+    const polluted = data.chunks.filter(chunk => isExtractionErrorText(chunk.content));
+
+    if (polluted.length > 0) {
+      findings.push({ file, filePath, data, polluted });
+    }
+  }
+
+  return findings;
+}
+
+async function purgeDocument({ file, filePath, data, polluted }) {
+  const remaining = data.chunks.filter(chunk => !polluted.includes(chunk));
+
+  if (remaining.length === 0) {
+    await fs.unlink(filePath);
+    console.log(`Deleted ${file}: it only contained error text`);
+
+    return;
+  }
+
+  const metadata = data.metadata || {};
+  const warnings = (metadata.extraction && metadata.extraction.warnings) || [];
+
+  data.chunks = remaining;
+  data.metadata = {
+    ...metadata,
+    chunks: remaining.length,
+    extraction: {
+      status: 'partial',
+      warnings: [
+        ...warnings,
+        { reason: 'error-text-removed', message: `Removed ${polluted.length} chunks of extraction error text` },
+      ],
+    },
+  };
+
+  await fs.writeFile(filePath, JSON.stringify(data, null, 2));
+  console.log(`Removed ${polluted.length} of ${polluted.length + remaining.length} chunks from ${file}`);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  console.log(`Scanning ${options.dir} for extraction error text...`);
+
+  const findings = await scanDocuments(options.dir);
+
+  if (findings.length === 0) {
+    console.log('No extraction error text found');
+
+    return;
+  }
+
+  for (const { file, data, polluted } of findings) {
+    const name = (data.metadata && data.metadata.fileName) || file;
+
+    console.log(`${name} (${file}): ${polluted.length}/${data.chunks.length} chunks are error text`);
+    console.log(`  e.g. ${polluted[0].content.trim().slice(0, 120)}`);
+  }
+
+  if (!options.purge) {
+    console.log(`\nFound error text in ${findings.length} documents. Run again with --purge to remove it, then upload the affected files again.`);
+
+    return;
+  }
+
+  for (const finding of findings) {
+    await purgeDocument(finding);
+  }
+
+  console.log(`\nPurged ${findings.length} documents. Upload the affected files again to index their real content.`);
+}
+
+main().catch(error => {
+  console.error('Error purging extraction errors:', error.message);
+  process.exit(1);
+});